@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { KAKEIBO_DATA_DIR } from "@/mastra/tools/kakeibo-csv";
+
+// スレッドごとに処理済みの添付ファイルとワークフローの実行IDを記録する
+// 再生成やメッセージの編集で同じ添付ファイルが送り直されても、二重に記録しないために使う
+const PROCESSED_ATTACHMENTS_PATH = path.join(KAKEIBO_DATA_DIR, 'processed-attachments.json');
+
+type ProcessedAttachment = { runId: string; processedAt: string };
+
+// スレッドID → 添付ファイルのハッシュ → 処理したワークフロー
+type ProcessedAttachments = Record<string, Record<string, ProcessedAttachment>>;
+
+const readProcessedAttachments = (): ProcessedAttachments => {
+  if (!fs.existsSync(PROCESSED_ATTACHMENTS_PATH)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(PROCESSED_ATTACHMENTS_PATH, 'utf-8'));
+};
+
+// 添付ファイルの内容（data URL）またはURLから作るハッシュ
+export const attachmentHash = (url: string): string =>
+  crypto.createHash('sha256').update(url).digest('hex').slice(0, 32);
+
+export const findProcessedAttachment = (threadId: string, hash: string): ProcessedAttachment | undefined =>
+  readProcessedAttachments()[threadId]?.[hash];
+
+export const markAttachmentProcessed = (threadId: string, hash: string, runId: string) => {
+  const processed = readProcessedAttachments();
+  processed[threadId] = {
+    ...processed[threadId],
+    [hash]: { runId, processedAt: new Date().toISOString() },
+  };
+
+  if (!fs.existsSync(KAKEIBO_DATA_DIR)) {
+    fs.mkdirSync(KAKEIBO_DATA_DIR, { recursive: true });
+  }
+  fs.writeFileSync(PROCESSED_ATTACHMENTS_PATH, JSON.stringify(processed, null, 2) + '\n', 'utf-8');
+};
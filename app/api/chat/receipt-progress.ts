@@ -0,0 +1,83 @@
+// 添付ファイル1つ分の処理の進み具合（チャットに receipt-progress ツールとして表示する）
+// レシート画像・PDFはワークフローのステップ、明細CSVは取り込みのステップを表示する
+
+export type ReceiptProgressStatus = 'pending' | 'running' | 'success' | 'suspended' | 'failed' | 'skipped';
+
+export type ReceiptProgressStep = {
+  id: string;
+  title: string;
+  status: ReceiptProgressStatus;
+};
+
+export type ReceiptProgress = {
+  label: string;
+  steps: ReceiptProgressStep[];
+  // 処理が終わったら結果を1行で入れる
+  result?: string;
+};
+
+// 表示するステップ（ワークフローのステップIDと、その前の受け取り）
+const RECEIPT_PROGRESS_STEPS: Array<Omit<ReceiptProgressStep, 'status'>> = [
+  { id: 'receive-attachment', title: '画像を受け取りました' },
+  { id: 'run-receipt-ocr', title: 'レシートを読み取る' },
+  { id: 'validate-receipt', title: '金額・日付をチェックする' },
+  { id: 'review-receipt', title: '読み取り結果を確認する' },
+  { id: 'categorize-receipt', title: 'カテゴリーを分類する' },
+  { id: 'record-receipt', title: '家計簿に記録する' },
+];
+
+// 銀行・カードの明細CSVの取り込み（照合と記録は1回の処理で行う）
+const STATEMENT_PROGRESS_STEPS: Array<Omit<ReceiptProgressStep, 'status'>> = [
+  { id: 'receive-attachment', title: '明細CSVを受け取りました' },
+  { id: 'import-statement', title: '明細を読み取り、記録済みのレシートと照合する' },
+];
+
+export const createReceiptProgress = (label: string, statement = false): ReceiptProgress => ({
+  label,
+  steps: (statement ? STATEMENT_PROGRESS_STEPS : RECEIPT_PROGRESS_STEPS).map((step) => ({
+    ...step,
+    status: step.id === 'receive-attachment' ? 'success' : 'pending',
+  })),
+});
+
+// ワークフローの watch イベントのステップ状態を反映する（表示しないステップは無視する）
+export const updateReceiptProgress = (progress: ReceiptProgress, stepId: string, status: string): ReceiptProgress => ({
+  ...progress,
+  steps: progress.steps.map((step) =>
+    step.id === stepId ? { ...step, status: toProgressStatus(status) } : step,
+  ),
+});
+
+// 処理を終える。実行中のまま残ったステップは、失敗なら failed、それ以外なら skipped にする
+export const finishReceiptProgress = (
+  progress: ReceiptProgress,
+  result: string,
+  options: { failed?: boolean; completed?: boolean } = {},
+): ReceiptProgress => ({
+  ...progress,
+  result,
+  steps: progress.steps.map((step) => {
+    if (options.completed) {
+      return { ...step, status: 'success' };
+    }
+    if (step.status === 'running') {
+      return { ...step, status: options.failed ? 'failed' : 'skipped' };
+    }
+    return step;
+  }),
+});
+
+const toProgressStatus = (status: string): ReceiptProgressStatus => {
+  switch (status) {
+    case 'running':
+    case 'success':
+    case 'suspended':
+    case 'failed':
+      return status;
+    case 'bailed':
+    case 'canceled':
+      return 'skipped';
+    default:
+      return 'pending';
+  }
+};
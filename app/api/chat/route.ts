@@ -1,81 +1,415 @@
 import { mastra } from "@/mastra";
-import { setImageUrlForRun } from "@/mastra/tools/receipt-ocr-tool";
-import { streamText } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { getLedgerStore } from "@/mastra/ledger";
+import { importStatement } from "@/mastra/statements";
+import type { DuplicateMatch } from "@/mastra/tools/receipt-fingerprint";
+import {
+  attachmentHash,
+  findProcessedAttachment,
+  markAttachmentProcessed,
+} from "./processed-attachments";
+import {
+  createReceiptProgress,
+  finishReceiptProgress,
+  updateReceiptProgress,
+  type ReceiptProgress,
+} from "./receipt-progress";
+import {
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
+  type FileUIPart,
+  type UIMessage,
+  type UIMessageStreamWriter,
+} from "ai";
 
 export const maxDuration = 300;
 
+// 同時に実行するワークフローの数（レシートを何枚添付されても、OCRのAPIを同時に叩きすぎないようにする）
+const RECEIPT_CONCURRENCY = Number(process.env.RECEIPT_CONCURRENCY) || 2;
+
+const isFilePart = (part: UIMessage['parts'][number]): part is FileUIPart => part.type === 'file';
+
+// 銀行・カードの明細CSV（OSによっては text/csv 以外の種類で送られるので、ファイル名でも判定する）
+const isStatementFile = (file: FileUIPart) =>
+  file.mediaType === 'text/csv' || Boolean(file.filename?.toLowerCase().endsWith('.csv'));
+
+// 確認待ちのステップ（review-receipt）が一時停止時に渡す内容
+type ReviewPayload = {
+  receipt?: { storeName: string; date: string; total: number };
+  issues?: string[];
+  duplicates?: DuplicateMatch[];
+};
+
+// レシート1枚分のワークフローの結果
+type ReceiptOutcome =
+  | {
+      status: 'suspended';
+      runId: string;
+      label: string;
+      // 再生成などで送り直された添付ファイルについて、前回の確認カードを表示し直した場合は true
+      reshown: boolean;
+      ocrOutput?: unknown;
+      payload: ReviewPayload & { issues: string[]; duplicates: DuplicateMatch[] };
+    }
+  | { status: 'success'; runId?: string; label: string; message: string }
+  | { status: 'skipped'; runId?: string; label: string; reason: string }
+  | { status: 'failed'; runId?: string; label: string; error: string };
+
+// ワークフローのステップの状態が変わるたびに呼ばれる
+type StepListener = (stepId: string, status: string) => void;
+
 export async function POST(req: Request) {
-  const { messages } = await req.json();
+  const { id, messages }: { id?: string; messages: UIMessage[] } = await req.json();
+
+  // 最新のユーザーメッセージにファイルが無ければ、家計簿への質問として会話エージェントに回す
+  const latestUserMessage = [...messages].reverse().find((msg) => msg.role === 'user');
+  if (!latestUserMessage?.parts.some(isFilePart)) {
+    console.log('[DEBUG] No file part in latest user message, routing to kakeiboAgent');
+
+    // 過去のレシート画像は会話に不要なので取り除く
+    const textMessages = messages.map((msg) => ({
+      ...msg,
+      parts: msg.parts.filter((part) => !isFilePart(part)),
+    }));
 
-  let extractedImageUrl: string | null = null;
+    const agent = mastra.getAgent('kakeiboAgent');
+    const stream = await agent.stream(textMessages, { format: 'aisdk' });
 
-  for (const msg of messages) {
-    if (msg.role === 'user' && 'parts' in msg && Array.isArray(msg.parts)) {
-      const filePart = msg.parts.find((p: any) =>
-        typeof p === 'object' && p !== null && 'type' in p && p.type === 'file'
+    return stream.toUIMessageStreamResponse();
+  }
+
+  // 最新のユーザーメッセージに添付された画像・PDF・明細CSVをすべて処理する
+  const files = latestUserMessage.parts.filter(isFilePart);
+  console.log('[DEBUG] File parts in latest user message:', files.length);
+
+  // 同じメッセージに同じ画像が複数添付されていたら、2枚目以降は処理しない
+  const firstIndexByHash = new Map<string, number>();
+  const attachments = files.map((file, index) => {
+    const hash = attachmentHash(file.url);
+    const firstIndex = firstIndexByHash.get(hash) ?? index;
+    firstIndexByHash.set(hash, firstIndex);
+    return {
+      file,
+      hash,
+      label: `${index + 1}枚目${file.filename ? `（${file.filename}）` : ''}`,
+      sameAs: firstIndex !== index ? firstIndex : undefined,
+    };
+  });
+
+  // 処理が終わるのを待たずに返し、レシートごとの進み具合を順に書き込む
+  const stream = createUIMessageStream({
+    execute: async ({ writer }) => {
+      const progressIds = attachments.map(() => `receipt-progress-${generateId()}`);
+      const progress = attachments.map((attachment) =>
+        createReceiptProgress(attachment.label, isStatementFile(attachment.file)),
       );
 
-      if (filePart && 'url' in filePart && typeof filePart.url === 'string') {
-        extractedImageUrl = filePart.url;
-        break;
+      const report = (index: number, next: ReceiptProgress, preliminary = true) => {
+        progress[index] = next;
+        writer.write({ type: 'tool-output-available', toolCallId: progressIds[index], output: next, dynamic: true, preliminary });
+      };
+
+      attachments.forEach((attachment, index) => {
+        writer.write({
+          type: 'tool-input-available',
+          toolCallId: progressIds[index],
+          toolName: 'receipt-progress',
+          input: { label: attachment.label },
+          dynamic: true,
+        });
+        report(index, progress[index]);
+      });
+
+      const outcomes = await mapWithConcurrency(attachments, RECEIPT_CONCURRENCY, async (attachment, index) => {
+        const outcome = attachment.sameAs !== undefined
+          ? ({
+              status: 'skipped',
+              label: attachment.label,
+              reason: `${attachment.sameAs + 1}枚目と同じ画像です`,
+            } satisfies ReceiptOutcome)
+          : await processAttachment(attachment.file, attachment.hash, attachment.label, id, (stepId, status) =>
+              report(index, updateReceiptProgress(progress[index], stepId, status)),
+            );
+
+        report(
+          index,
+          finishReceiptProgress(progress[index], describeOutcome(outcome), { failed: outcome.status === 'failed' }),
+          false,
+        );
+        return outcome;
+      });
+
+      const statements = attachments.map((attachment) => isStatementFile(attachment.file));
+      writeText(writer, 'receipt-summary', summarizeOutcomes(outcomes, statements));
+
+      // 確認待ちのレシートごとに、読み取り結果と編集可能なレシートカードを表示する
+      for (const outcome of outcomes) {
+        if (outcome.status !== 'suspended') continue;
+
+        if (outcome.ocrOutput) {
+          writeToolResult(writer, `receipt-ocr-${outcome.runId}`, 'receipt-ocr', {}, outcome.ocrOutput);
+        }
+        writer.write({
+          type: 'tool-input-available',
+          toolCallId: `receipt-review-${outcome.runId}`,
+          toolName: 'receipt-review',
+          input: {
+            runId: outcome.runId,
+            receipt: outcome.payload.receipt,
+            issues: outcome.payload.issues,
+            duplicates: outcome.payload.duplicates,
+          },
+          dynamic: true,
+        });
       }
+    },
+  });
+
+  return createUIMessageStreamResponse({ stream });
+}
+
+// 添付ファイル1つを処理する。このスレッドで処理済みなら、前回の結果を使う
+async function processAttachment(
+  file: FileUIPart,
+  hash: string,
+  label: string,
+  threadId: string | undefined,
+  onStep: StepListener,
+): Promise<ReceiptOutcome> {
+  // 明細CSVは、同じものを送り直されても照合で二重に記録されないので、処理済みかどうかは見ない
+  if (isStatementFile(file)) {
+    return importStatementAttachment(file, label, onStep);
+  }
+
+  if (!file.mediaType.startsWith('image/') && file.mediaType !== 'application/pdf') {
+    onStep('receive-attachment', 'failed');
+    return { status: 'failed', label, error: `対応していないファイル形式です（${file.mediaType}）` };
+  }
+
+  const processed = threadId ? findProcessedAttachment(threadId, hash) : undefined;
+  if (processed) {
+    console.log('[DEBUG] Attachment already processed in thread:', threadId, processed.runId);
+    const previous = await previousOutcome(processed.runId, label, onStep);
+    if (previous) {
+      return previous;
     }
   }
 
-  const workflow = mastra.getWorkflow("kakeiboWorkflow");
-  const run = await workflow.createRunAsync();
+  const outcome = await runReceiptWorkflow(file.url, label, onStep);
+  if (threadId && outcome.runId && outcome.status !== 'failed') {
+    markAttachmentProcessed(threadId, hash, outcome.runId);
+  }
+  return outcome;
+}
+
+// 明細CSVを家計簿に取り込む（記録済みのレシートと照合できた明細は新しく記録しない）
+async function importStatementAttachment(
+  file: FileUIPart,
+  label: string,
+  onStep: StepListener,
+): Promise<ReceiptOutcome> {
+  onStep('import-statement', 'running');
+  try {
+    const bytes = Buffer.from(file.url.slice(file.url.indexOf(',') + 1), 'base64');
+    const result = await importStatement(await getLedgerStore(), bytes);
+    onStep('import-statement', 'success');
+    return { status: 'success', label, message: result.message };
+  } catch (error) {
+    console.log('[DEBUG] Statement import exception:', label, error);
+    onStep('import-statement', 'failed');
+    return { status: 'failed', label, error: error instanceof Error ? error.message : String(error) };
+  }
+}
 
-  const imageUrlPreview = extractedImageUrl
-    ? (extractedImageUrl.startsWith('data:') ? `data URL (${extractedImageUrl.length} chars)` : extractedImageUrl)
-    : 'null';
+// 前回のワークフローの状態から結果を作る（取り消し・失敗していた場合は undefined を返し、読み取り直す）
+async function previousOutcome(
+  runId: string,
+  label: string,
+  onStep: StepListener,
+): Promise<ReceiptOutcome | undefined> {
+  const workflow = mastra.getWorkflow("kakeiboWorkflow");
+  const state = await workflow.getWorkflowRunExecutionResult(runId);
+  console.log('[DEBUG] Previous workflow status:', runId, state?.status);
 
-  console.log('[DEBUG] Run ID:', run.runId);
-  console.log('[DEBUG] Extracted imageUrl:', imageUrlPreview);
+  // 前回の実行で進んだところまでを進み具合に反映する（読み取り直す場合は、この後の実行で上書きされる）
+  if (state?.status === 'suspended' || state?.status === 'running' || state?.status === 'success') {
+    for (const [stepId, step] of Object.entries(state.steps)) {
+      onStep(stepId, step.status);
+    }
+  }
 
-  if (extractedImageUrl) {
-    setImageUrlForRun(run.runId, extractedImageUrl);
+  switch (state?.status) {
+    case 'suspended': {
+      // 確認カードの操作がまだなので、同じ実行IDのカードを表示し直す
+      const review = state.steps['review-receipt'] as { suspendPayload?: ReviewPayload } | undefined;
+      const ocr = state.steps['validate-receipt'];
+      return suspendedOutcome(runId, label, ocr?.status === 'success' ? ocr.output : undefined, review?.suspendPayload, true);
+    }
+    case 'running':
+      return { status: 'skipped', runId, label, reason: '同じ画像を処理中です' };
+    case 'success':
+      if (state.result?.success) {
+        return { status: 'skipped', runId, label, reason: `このスレッドで記録済みです（${state.result.message}）` };
+      }
+      return undefined;
+    default:
+      return undefined;
   }
+}
 
-  const workflowResult = await run.start({
-    inputData: {
-      imageUrl: extractedImageUrl || '',
-      category: '未分類',
+function suspendedOutcome(
+  runId: string,
+  label: string,
+  ocrOutput: unknown,
+  payload: ReviewPayload | undefined,
+  reshown: boolean,
+): ReceiptOutcome {
+  return {
+    status: 'suspended',
+    runId,
+    label,
+    reshown,
+    ocrOutput,
+    payload: {
+      receipt: payload?.receipt,
+      issues: payload?.issues ?? [],
+      duplicates: payload?.duplicates ?? [],
     },
-  });
+  };
+}
+
+// レシート画像1枚につきワークフローを1回実行する
+async function runReceiptWorkflow(imageUrl: string, label: string, onStep: StepListener): Promise<ReceiptOutcome> {
+  const workflow = mastra.getWorkflow("kakeiboWorkflow");
+  const run = await workflow.createRunAsync();
+  const unwatch = run.watch((event) => {
+    const step = event.payload.currentStep;
+    if (step) {
+      onStep(step.id, step.status);
+    }
+  }, 'watch');
+
+  const imageUrlPreview = imageUrl.startsWith('data:') ? `data URL (${imageUrl.length} chars)` : imageUrl;
+  console.log('[DEBUG] Run ID:', run.runId, label);
+  console.log('[DEBUG] Extracted imageUrl:', imageUrlPreview);
+
+  try {
+    const workflowResult = await run.start({
+      inputData: { imageUrl },
+    });
+
+    console.log('[DEBUG] Workflow status:', run.runId, workflowResult.status);
+
+    // 読み取り結果の確認待ち
+    if (workflowResult.status === 'suspended') {
+      const ocr = workflowResult.steps['validate-receipt'];
+      const review = workflowResult.steps['review-receipt'];
+
+      return suspendedOutcome(
+        run.runId,
+        label,
+        ocr?.status === 'success' ? ocr.output : undefined,
+        review?.status === 'suspended' ? review.suspendPayload : undefined,
+        false,
+      );
+    }
+
+    if (workflowResult.status === 'success') {
+      console.log('[DEBUG] Workflow result:', workflowResult.result);
+      return {
+        status: 'success',
+        runId: run.runId,
+        label,
+        message: workflowResult.result.message || '処理が完了しました',
+      };
+    }
 
-  console.log('[DEBUG] Workflow status:', workflowResult.status);
-  if (workflowResult.status === 'success') {
-    console.log('[DEBUG] Workflow result:', workflowResult.result);
-  } else if (workflowResult.status === 'failed') {
     console.log('[DEBUG] Workflow error:', workflowResult.error);
+    return {
+      status: 'failed',
+      runId: run.runId,
+      label,
+      error: String(workflowResult.error || '不明なエラー'),
+    };
+  } catch (error) {
+    console.log('[DEBUG] Workflow exception:', run.runId, error);
+    return {
+      status: 'failed',
+      runId: run.runId,
+      label,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    unwatch();
   }
+}
 
-  let responseMessage = '';
-  if (workflowResult.status === 'success') {
-    responseMessage = workflowResult.result.message || '処理が完了しました';
-  } else if (workflowResult.status === 'failed') {
-    responseMessage = `エラーが発生しました: ${workflowResult.error || '不明なエラー'}`;
-  } else {
-    responseMessage = 'ワークフローが一時停止しています';
+// レシート1枚の処理結果を1行で説明する
+function describeOutcome(outcome: ReceiptOutcome): string {
+  switch (outcome.status) {
+    case 'suspended': {
+      const receipt = outcome.payload.receipt;
+      const description = receipt
+        ? `${receipt.storeName} ${receipt.date.slice(0, 10)} ${receipt.total.toLocaleString('ja-JP')}円`
+        : '読み取り完了';
+      const [duplicate] = outcome.payload.duplicates;
+      const notes = [
+        duplicate &&
+          `⚠️ 重複の疑い: ${duplicate.date.slice(0, 10)} ${duplicate.storeName} ${duplicate.total.toLocaleString('ja-JP')}円が記録済み`,
+        outcome.payload.issues.length > 0 && `要確認の項目が${outcome.payload.issues.length}件あります`,
+      ].filter(Boolean);
+      const status = outcome.reshown ? '確認待ち（前回の確認カードを表示し直しました）' : '確認待ち';
+      return `${description} — ${status}${notes.length > 0 ? `（${notes.join('、')}）` : ''}`;
+    }
+    case 'success':
+      return outcome.message;
+    case 'skipped':
+      return `スキップしました: ${outcome.reason}`;
+    case 'failed':
+      return `❌ 処理に失敗しました: ${outcome.error}`;
   }
+}
 
-  console.log('[DEBUG] Final message:', responseMessage);
-
-  // AI SDKのstreamTextを使ってassistant-ui互換のレスポンスを返す
-  const result = streamText({
-    model: openai("gpt-4o"),
-    messages: [
-      {
-        role: "system",
-        content: "ユーザーに以下のメッセージを伝えてください。そのまま返答してください。",
-      },
-      {
-        role: "user",
-        content: responseMessage,
-      },
-    ],
-  });
+// 添付ファイルごとの処理結果を箇条書きにまとめる（statements は各添付ファイルが明細CSVかどうか）
+function summarizeOutcomes(outcomes: ReceiptOutcome[], statements: boolean[]): string {
+  const lines = outcomes.map((outcome) => `- ${outcome.label}: ${describeOutcome(outcome)}`);
+
+  const count = (status: ReceiptOutcome['status']) => outcomes.filter((outcome) => outcome.status === status).length;
+  const duplicates = outcomes.filter(
+    (outcome) => outcome.status === 'suspended' && outcome.payload.duplicates.length > 0,
+  ).length;
+
+  const statementCount = statements.filter(Boolean).length;
+
+  const header = outcomes.length === 1
+    ? (statements[0]
+        ? (outcomes[0].status === 'failed' ? '明細を取り込めませんでした。' : '明細を取り込みました。')
+        : 'レシートを処理しました。')
+    : statementCount === 0
+      ? `${outcomes.length}枚のレシートを処理しました（読み取り成功 ${count('suspended') + count('success')}枚、失敗 ${count('failed')}枚、スキップ ${count('skipped')}枚、重複の疑い ${duplicates}枚）。`
+      : `${outcomes.length}件の添付ファイル（レシート ${outcomes.length - statementCount}枚、明細CSV ${statementCount}件）を処理しました（成功 ${count('suspended') + count('success')}件、失敗 ${count('failed')}件、スキップ ${count('skipped')}件、重複の疑い ${duplicates}件）。`;
+  const footer = count('suspended') > 0
+    ? '\n\n内容を確認して、必要なら修正してから記録してください。'
+    : '';
+
+  return `${header}\n\n${lines.join('\n')}${footer}`;
+}
+
+function writeText(writer: UIMessageStreamWriter, id: string, text: string) {
+  writer.write({ type: 'text-start', id });
+  writer.write({ type: 'text-delta', id, delta: text });
+  writer.write({ type: 'text-end', id });
+}
 
-  return result.toUIMessageStreamResponse();
+// ツールの呼び出しと結果をまとめて書き込む（assistant-uiのツールUIで表示する）
+function writeToolResult(
+  writer: UIMessageStreamWriter,
+  toolCallId: string,
+  toolName: string,
+  input: unknown,
+  output: unknown,
+) {
+  writer.write({ type: 'tool-input-available', toolCallId, toolName, input, dynamic: true });
+  writer.write({ type: 'tool-output-available', toolCallId, output, dynamic: true });
 }
@@ -0,0 +1,4 @@
+// 家計簿CSV（1商品1行）のダウンロード。Excelで開けるBOM付きCSVを出力する /api/ledger/export に転送する
+export async function GET(req: Request) {
+  return Response.redirect(new URL('/api/ledger/export?format=csv', req.url));
+}
@@ -0,0 +1,47 @@
+import { exportFormatSchema, exportLedger } from "@/mastra/tools/ledger-export";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 家計簿を指定した形式でダウンロードする
+// 例: /api/ledger/export?format=xlsx&from=2024-01-01&to=2024-03-31&category=食費
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const format = exportFormatSchema.safeParse(params.get('format') || 'csv');
+  if (!format.success) {
+    return Response.json(
+      { success: false, message: `形式は ${exportFormatSchema.options.join(' / ')} のいずれかを指定してください` },
+      { status: 400 },
+    );
+  }
+
+  const [startDate, endDate] = [params.get('from'), params.get('to')];
+  if ([startDate, endDate].some((date) => date && !DATE_PATTERN.test(date))) {
+    return Response.json(
+      { success: false, message: '期間は YYYY-MM-DD 形式で指定してください' },
+      { status: 400 },
+    );
+  }
+
+  let exported;
+  try {
+    exported = await exportLedger(format.data, {
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      category: params.get('category') || undefined,
+    });
+  } catch (error) {
+    // Shift_JIS で表せない文字があるときなど、壊れたファイルを返さずに理由を返す
+    return Response.json(
+      { success: false, message: error instanceof Error ? error.message : String(error) },
+      { status: 422 },
+    );
+  }
+
+  return new Response(typeof exported.body === 'string' ? exported.body : new Uint8Array(exported.body), {
+    headers: {
+      'Content-Type': exported.contentType,
+      // 日本語のファイル名は filename* で渡す（filename は日本語を _ にした代替名）
+      'Content-Disposition': `attachment; filename="${exported.fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(exported.fileName)}`,
+    },
+  });
+}
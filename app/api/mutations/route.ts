@@ -0,0 +1,67 @@
+import { z } from "zod";
+import {
+  claimPendingMutation,
+  getPendingMutation,
+  resolvePendingMutation,
+} from "@/mastra/tools/mutation-confirmation";
+import { executeMutation } from "@/mastra/tools/mutation-executors";
+
+const confirmRequestSchema = z.object({
+  id: z.string(),
+  action: z.enum(['approve', 'reject']),
+});
+
+// 確認カードの表示用に、確認の状態を返す
+export async function GET(req: Request) {
+  const id = new URL(req.url).searchParams.get('id') || '';
+  const mutation = getPendingMutation(id);
+  if (!mutation) {
+    return Response.json({ success: false, message: '確認が見つかりません' }, { status: 404 });
+  }
+  return Response.json({ status: mutation.status, message: mutation.message });
+}
+
+// 確認カードの「実行」「取り消し」を受けて、確認待ちの変更を実行・破棄する
+// エージェントのツールからは呼ばれない。確認IDは1回しか使えない
+export async function POST(req: Request) {
+  const parsed = confirmRequestSchema.safeParse(await req.json());
+  if (!parsed.success) {
+    return Response.json(
+      { success: false, message: `リクエストが不正です: ${parsed.error.message}` },
+      { status: 400 },
+    );
+  }
+
+  const { id, action } = parsed.data;
+  const mutation = claimPendingMutation(id);
+  if (!mutation) {
+    const current = getPendingMutation(id);
+    return Response.json(
+      {
+        success: false,
+        status: current?.status,
+        message: current?.status === 'expired'
+          ? '確認の有効期限が切れました。もう一度依頼してください'
+          : 'この確認は既に処理されたか、見つかりません',
+      },
+      { status: 409 },
+    );
+  }
+  console.log('[DEBUG] Mutations - ID:', id, 'Kind:', mutation.kind, 'Action:', action);
+
+  if (action === 'reject') {
+    resolvePendingMutation(id, 'rejected', '取り消しました');
+    return Response.json({ success: true, status: 'rejected', message: '取り消しました' });
+  }
+
+  try {
+    const result = await executeMutation(mutation);
+    const status = result.success ? 'approved' : 'failed';
+    resolvePendingMutation(id, status, result.message);
+    return Response.json({ ...result, status });
+  } catch (error) {
+    const message = `エラーが発生しました: ${error instanceof Error ? error.message : String(error)}`;
+    resolvePendingMutation(id, 'failed', message);
+    return Response.json({ success: false, status: 'failed', message }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { mastra } from "@/mastra";
+import { receiptSchema } from "@/mastra/workflows/kakeibo-workflow";
+import { z } from "zod";
+
+export const maxDuration = 300;
+
+const reviewRequestSchema = z.object({
+  runId: z.string(),
+  action: z.enum(['confirm', 'cancel']),
+  receipt: receiptSchema.optional(),
+  force: z.boolean().optional(),
+  acceptIssues: z.boolean().optional(),
+});
+
+// レシート確認カードからの確定・取り消しを受けて、一時停止中のワークフローを再開する
+export async function POST(req: Request) {
+  const parsed = reviewRequestSchema.safeParse(await req.json());
+  if (!parsed.success) {
+    return Response.json(
+      { success: false, message: `リクエストが不正です: ${parsed.error.message}` },
+      { status: 400 },
+    );
+  }
+
+  const { runId, action, receipt, force, acceptIssues } = parsed.data;
+  console.log('[DEBUG] Receipt review - Run ID:', runId, 'Action:', action);
+
+  const workflow = mastra.getWorkflow("kakeiboWorkflow");
+  const run = await workflow.createRunAsync({ runId });
+
+  try {
+    const workflowResult = await run.resume({
+      step: 'review-receipt',
+      resumeData: { action, receipt, force, acceptIssues },
+    });
+
+    console.log('[DEBUG] Receipt review - Workflow status:', workflowResult.status);
+
+    if (workflowResult.status === 'success') {
+      return Response.json(workflowResult.result);
+    }
+
+    // 問題点が残っているため、ワークフローが確認待ちに戻った
+    if (workflowResult.status === 'suspended') {
+      const review = workflowResult.steps['review-receipt'] as { suspendPayload?: { issues?: string[] } } | undefined;
+      const issues = review?.suspendPayload?.issues || [];
+      return Response.json(
+        {
+          success: false,
+          message: `レシートの内容に問題があるため記録していません。修正するか、問題点を確認したうえで記録してください\n${issues.join('\n')}`,
+          issues,
+        },
+        { status: 422 },
+      );
+    }
+
+    return Response.json(
+      {
+        success: false,
+        message: workflowResult.status === 'failed'
+          ? `エラーが発生しました: ${workflowResult.error || '不明なエラー'}`
+          : 'ワークフローが再開できませんでした',
+      },
+      { status: 500 },
+    );
+  } catch (error) {
+    return Response.json(
+      {
+        success: false,
+        message: `エラーが発生しました: ${error instanceof Error ? error.message : String(error)}`,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { recordRecurringExpensesForToday } from "@/mastra/ledger";
+
+// 支払日を迎えた定期支出を家計簿に記録する（Vercel Cron などから毎日呼ぶ）
+// 家計簿を開いたときにも記録されるので、アプリを使わない日の分を記録しておきたい場合に使う
+// CRON_SECRET を設定している場合は Authorization: Bearer <CRON_SECRET> が必要
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return Response.json({ success: false, message: '認証に失敗しました' }, { status: 401 });
+  }
+
+  // 家計簿を開くと支払日を迎えた定期支出が記録されるので、その結果を返す
+  const recorded = await recordRecurringExpensesForToday();
+  console.log('[DEBUG] Recurring - Recorded:', recorded.length);
+
+  return Response.json({ success: true, recorded });
+}
@@ -6,6 +6,7 @@ import {
   AssistantChatTransport,
 } from "@assistant-ui/react-ai-sdk";
 import { Thread } from "@/components/assistant-ui/thread";
+import { receiptAttachmentAdapter } from "@/lib/receipt-attachment-adapter";
 import {
   SidebarInset,
   SidebarProvider,
@@ -27,6 +28,9 @@ export const Assistant = () => {
     transport: new AssistantChatTransport({
       api: "/api/chat",
     }),
+    adapters: {
+      attachments: receiptAttachmentAdapter,
+    },
   });
 
   return (
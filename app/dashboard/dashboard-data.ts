@@ -0,0 +1,139 @@
+import {
+  BudgetStatus,
+  MonthlyBalance,
+  getBudgetStatuses,
+  getLedgerStore,
+  getMonthlyBalances,
+  listSpendingRows,
+  localToday,
+  monthsBetween,
+  toLocalDate,
+} from "@/mastra/ledger";
+import { loadCategoryConfig } from "@/mastra/tools/category-rules";
+
+// ダッシュボードの絞り込み条件（URLのクエリで受け取る）
+export type DashboardFilter = {
+  startDate: string;
+  endDate: string;
+  category?: string;
+  paymentMethod?: string;
+};
+
+export type DashboardData = {
+  filter: DashboardFilter;
+  total: { amount: number; receiptCount: number; itemCount: number };
+  monthly: Array<{ month: string; amount: number }>;
+  categories: Array<{ category: string; amount: number; share: number }>;
+  stores: Array<{ storeName: string; amount: number; receiptCount: number }>;
+  daily: Array<{ date: string; amount: number }>;
+  // 期間の最後の月の予算の状況
+  budgets: BudgetStatus[];
+  // 月ごとの収入・支出・収支（カテゴリー・支払い方法の絞り込みに関わらず、家計全体で計算する）
+  balances: MonthlyBalance[];
+  // 絞り込みの選択肢
+  options: { categories: string[]; paymentMethods: string[] };
+};
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// 店舗別に表示する件数
+const TOP_STORES = 10;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const param = (params: SearchParams, name: string): string | undefined => {
+  const value = params[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+};
+
+// 期間の指定が無ければ、今月を含む直近6か月を表示する
+export const parseDashboardFilter = (params: SearchParams): DashboardFilter => {
+  const today = new Date();
+  const defaultStart = new Date(today.getFullYear(), today.getMonth() - 5, 1);
+  const startDate = param(params, 'from');
+  const endDate = param(params, 'to');
+
+  return {
+    startDate: startDate && DATE_PATTERN.test(startDate)
+      ? startDate
+      : toLocalDate(defaultStart),
+    endDate: endDate && DATE_PATTERN.test(endDate) ? endDate : localToday(today),
+    category: param(params, 'category'),
+    paymentMethod: param(params, 'paymentMethod'),
+  };
+};
+
+const sumBy = <T>(values: T[], key: (value: T) => string, amount: (value: T) => number) => {
+  const sums = new Map<string, number>();
+  for (const value of values) {
+    sums.set(key(value), (sums.get(key(value)) || 0) + amount(value));
+  }
+  return sums;
+};
+
+// 家計簿から集計する（金額はレシートの合計金額を商品ごとに配分した額。カテゴリーは商品ごとのカテゴリーで数える）
+export const loadDashboard = async (filter: DashboardFilter): Promise<DashboardData> => {
+  const rowsInPeriod = await listSpendingRows({ startDate: filter.startDate, endDate: filter.endDate });
+  const rows = rowsInPeriod.filter(
+    (row) =>
+      (!filter.category || row.category === filter.category) &&
+      (!filter.paymentMethod || row.paymentMethod === filter.paymentMethod)
+  );
+
+  const amount = rows.reduce((sum, row) => sum + row.amount, 0);
+
+  const monthlySums = sumBy(rows, (row) => row.date.slice(0, 7), (row) => row.amount);
+  const categorySums = sumBy(rows, (row) => row.category, (row) => row.amount);
+  const storeSums = sumBy(rows, (row) => row.storeName, (row) => row.amount);
+  const storeReceipts = sumBy(
+    [...new Map(rows.map((row) => [row.receiptId, row])).values()],
+    (row) => row.storeName,
+    () => 1
+  );
+  const dailySums = sumBy(rows, (row) => row.date.slice(0, 10), (row) => row.amount);
+
+  const store = await getLedgerStore();
+  const lastMonth = filter.endDate.slice(0, 7);
+  const budgets = await getBudgetStatuses(store, lastMonth, filter.category ? [filter.category] : undefined);
+  const balances = await getMonthlyBalances(store, filter.startDate.slice(0, 7), lastMonth);
+
+  const { categories } = loadCategoryConfig();
+
+  return {
+    filter,
+    total: {
+      amount,
+      receiptCount: new Set(rows.map((row) => row.receiptId)).size,
+      itemCount: rows.length,
+    },
+    // 記録の無い月も0円で表示する
+    monthly: monthsBetween(filter.startDate, filter.endDate).map((month) => ({
+      month,
+      amount: monthlySums.get(month) || 0,
+    })),
+    categories: [...categorySums.entries()]
+      .map(([category, categoryAmount]) => ({
+        category,
+        amount: categoryAmount,
+        share: amount > 0 ? categoryAmount / amount : 0,
+      }))
+      .sort((a, b) => b.amount - a.amount),
+    stores: [...storeSums.entries()]
+      .map(([storeName, storeAmount]) => ({
+        storeName,
+        amount: storeAmount,
+        receiptCount: storeReceipts.get(storeName) || 0,
+      }))
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_STORES),
+    daily: [...dailySums.entries()]
+      .map(([date, dailyAmount]) => ({ date, amount: dailyAmount }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    budgets,
+    balances,
+    options: {
+      categories: [...new Set([...categories, ...rowsInPeriod.map((row) => row.category)])],
+      paymentMethods: [...new Set(rowsInPeriod.map((row) => row.paymentMethod))].sort(),
+    },
+  };
+};
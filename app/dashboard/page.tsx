@@ -0,0 +1,91 @@
+import Link from "next/link";
+import { ArrowLeftIcon } from "lucide-react";
+import { BudgetBars } from "@/components/assistant-ui/receipt-tools";
+import {
+  BalanceTable,
+  CategoryBreakdown,
+  DashboardCard,
+  MonthlyChart,
+  SpendingCalendar,
+  TopStores,
+} from "@/components/dashboard/dashboard-charts";
+import { DashboardFilters } from "@/components/dashboard/dashboard-filters";
+import { Button } from "@/components/ui/button";
+import { formatYen } from "@/lib/utils";
+import { loadDashboard, parseDashboardFilter } from "./dashboard-data";
+
+// 家計簿は記録のたびに変わるため、リクエストごとに集計する
+export const dynamic = "force-dynamic";
+
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const data = await loadDashboard(parseDashboardFilter(await searchParams));
+  const months = data.monthly.map((month) => month.month);
+
+  return (
+    <div className="mx-auto flex min-h-dvh w-full max-w-6xl flex-col gap-4 p-4 md:p-6">
+      <header className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" aria-label="チャットに戻る">
+            <ArrowLeftIcon />
+          </Link>
+        </Button>
+        <h1 className="text-lg font-semibold">支出ダッシュボード</h1>
+      </header>
+
+      <DashboardFilters filter={data.filter} options={data.options} />
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <DashboardCard title="支出合計">
+          <p className="text-2xl font-semibold">
+            {formatYen(data.total.amount)}
+          </p>
+        </DashboardCard>
+        <DashboardCard title="レシート枚数">
+          <p className="text-2xl font-semibold">{data.total.receiptCount}枚</p>
+        </DashboardCard>
+        <DashboardCard title="1か月あたり">
+          <p className="text-2xl font-semibold">
+            {formatYen(
+              Math.round(data.total.amount / Math.max(months.length, 1)),
+            )}
+          </p>
+        </DashboardCard>
+      </div>
+
+      <DashboardCard title="月別の支出">
+        <MonthlyChart monthly={data.monthly} />
+      </DashboardCard>
+
+      <DashboardCard title="月別の収支">
+        <BalanceTable balances={data.balances} />
+      </DashboardCard>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <DashboardCard title="カテゴリー別">
+          <CategoryBreakdown categories={data.categories} />
+        </DashboardCard>
+        <DashboardCard title="よく使う店舗">
+          <TopStores stores={data.stores} />
+        </DashboardCard>
+      </div>
+
+      <DashboardCard title="日別の支出">
+        <SpendingCalendar daily={data.daily} months={months} />
+      </DashboardCard>
+
+      <DashboardCard title={`予算の状況（${data.filter.endDate.slice(0, 7)}）`}>
+        {data.budgets.length > 0 ? (
+          <BudgetBars budgets={data.budgets} />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            予算が登録されていません。チャットで「食費の予算を月4万円に」のように設定できます
+          </p>
+        )}
+      </DashboardCard>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ import {
 } from "@/components/ui/dialog";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { renderPdfThumbnails } from "@/lib/pdf-thumbnails";
 import { cn } from "@/lib/utils";
 
 const useFileSrc = (file: File | undefined) => {
@@ -61,6 +62,43 @@ const useAttachmentSrc = () => {
   return useFileSrc(file) ?? src;
 };
 
+// PDFの添付ファイルはページごとのサムネイルを描画して表示する
+const usePdfThumbnails = () => {
+  const { file, data } = useAssistantState(
+    useShallow(({ attachment }): { file?: File; data?: string } => {
+      if (attachment.contentType !== "application/pdf") return {};
+      if (attachment.file) return { file: attachment.file };
+      const data = attachment.content?.find((c) => c.type === "file")?.data;
+      if (!data) return {};
+      return { data };
+    }),
+  );
+  const [thumbnails, setThumbnails] = useState<string[] | undefined>(undefined);
+
+  useEffect(() => {
+    const source = file ?? data;
+    if (!source) {
+      setThumbnails(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    renderPdfThumbnails(source)
+      .then((pages) => {
+        if (!cancelled) setThumbnails(pages);
+      })
+      .catch((error) => {
+        console.error("Failed to render PDF thumbnails", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, data]);
+
+  return thumbnails;
+};
+
 type AttachmentPreviewProps = {
   src: string;
 };
@@ -84,10 +122,37 @@ const AttachmentPreview: FC<AttachmentPreviewProps> = ({ src }) => {
   );
 };
 
-const AttachmentPreviewDialog: FC<PropsWithChildren> = ({ children }) => {
+const PdfPagesPreview: FC<{ pages: string[] }> = ({ pages }) => {
+  return (
+    <div className="aui-attachment-preview-pdf-pages flex max-h-[80dvh] w-full flex-col items-center gap-4 overflow-y-auto p-2">
+      {pages.map((page, index) => (
+        <figure
+          key={index}
+          className="aui-attachment-preview-pdf-page flex flex-col items-center gap-1"
+        >
+          <Image
+            src={page}
+            alt={`Page ${index + 1}`}
+            width={1}
+            height={1}
+            unoptimized={page.startsWith("data:")}
+            className="h-auto w-full max-w-xl border shadow-sm"
+          />
+          <figcaption className="text-xs text-muted-foreground">
+            {index + 1}
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+};
+
+const AttachmentPreviewDialog: FC<
+  PropsWithChildren<{ pdfPages?: string[] }>
+> = ({ children, pdfPages }) => {
   const src = useAttachmentSrc();
 
-  if (!src) return children;
+  if (!src && !pdfPages?.length) return children;
 
   return (
     <Dialog>
@@ -102,18 +167,22 @@ const AttachmentPreviewDialog: FC<PropsWithChildren> = ({ children }) => {
           Image Attachment Preview
         </DialogTitle>
         <div className="aui-attachment-preview relative mx-auto flex max-h-[80dvh] w-full items-center justify-center overflow-hidden bg-background">
-          <AttachmentPreview src={src} />
+          {src ? (
+            <AttachmentPreview src={src} />
+          ) : (
+            <PdfPagesPreview pages={pdfPages ?? []} />
+          )}
         </div>
       </DialogContent>
     </Dialog>
   );
 };
 
-const AttachmentThumb: FC = () => {
+const AttachmentThumb: FC<{ pdfPages?: string[] }> = ({ pdfPages }) => {
   const isImage = useAssistantState(
     ({ attachment }) => attachment.type === "image",
   );
-  const src = useAttachmentSrc();
+  const src = useAttachmentSrc() ?? pdfPages?.[0];
 
   return (
     <Avatar className="aui-attachment-tile-avatar h-full w-full rounded-none">
@@ -136,6 +205,7 @@ const AttachmentUI: FC = () => {
   const isImage = useAssistantState(
     ({ attachment }) => attachment.type === "image",
   );
+  const pdfPages = usePdfThumbnails();
   const typeLabel = useAssistantState(({ attachment }) => {
     const type = attachment.type;
     switch (type) {
@@ -160,7 +230,7 @@ const AttachmentUI: FC = () => {
             "aui-attachment-root-composer only:[&>#attachment-tile]:size-24",
         )}
       >
-        <AttachmentPreviewDialog>
+        <AttachmentPreviewDialog pdfPages={pdfPages}>
           <TooltipTrigger asChild>
             <div
               className={cn(
@@ -172,7 +242,7 @@ const AttachmentUI: FC = () => {
               id="attachment-tile"
               aria-label={`${typeLabel} attachment`}
             >
-              <AttachmentThumb />
+              <AttachmentThumb pdfPages={pdfPages} />
             </div>
           </TooltipTrigger>
         </AttachmentPreviewDialog>
@@ -0,0 +1,148 @@
+"use client";
+
+import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
+import { useEffect, useState, type FC } from "react";
+import {
+  AlertCircleIcon,
+  CheckIcon,
+  LoaderIcon,
+  ShieldQuestionIcon,
+  XIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToolFallback } from "@/components/assistant-ui/tool-fallback";
+import type { MutationStatus } from "@/mastra/tools/mutation-confirmation";
+
+// 家計簿を書き換えるツール（receipt-update, receipt-delete など）の結果
+type MutationPreviewResult = {
+  success: boolean;
+  requiresConfirmation: boolean;
+  message: string;
+  confirmationId?: string;
+  preview?: string[];
+};
+
+const STATUS_TITLES: Record<MutationStatus, string> = {
+  pending: "変更の確認",
+  running: "実行しています…",
+  approved: "実行しました",
+  rejected: "取り消しました",
+  failed: "実行できませんでした",
+  expired: "確認の有効期限が切れました",
+};
+
+const STATUS_ICONS: Record<MutationStatus, FC<{ className?: string }>> = {
+  pending: ShieldQuestionIcon,
+  running: LoaderIcon,
+  approved: CheckIcon,
+  rejected: XIcon,
+  failed: AlertCircleIcon,
+  expired: XIcon,
+};
+
+// 変更はこのカードの「実行」でだけ行われる（エージェントからは実行できない）
+export const MutationConfirmationTool: ToolCallMessagePartComponent<
+  unknown,
+  MutationPreviewResult
+> = (props) => {
+  const { result } = props;
+  // 対象が見つからないなど、確認が不要な結果は通常のツール表示にする
+  if (!result?.requiresConfirmation || !result.confirmationId) {
+    return <ToolFallback {...props} />;
+  }
+  return (
+    <MutationConfirmationCard
+      confirmationId={result.confirmationId}
+      preview={result.preview ?? [result.message]}
+    />
+  );
+};
+
+const MutationConfirmationCard: FC<{
+  confirmationId: string;
+  preview: string[];
+}> = ({ confirmationId, preview }) => {
+  const [status, setStatus] = useState<MutationStatus | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  // 再読み込みしても処理済みの確認に再び操作できないよう、現在の状態を取得する
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/mutations?id=${encodeURIComponent(confirmationId)}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (cancelled) return;
+        setStatus(data.status ?? "expired");
+        setMessage(data.message ?? null);
+      })
+      .catch(() => !cancelled && setStatus("pending"));
+    return () => {
+      cancelled = true;
+    };
+  }, [confirmationId]);
+
+  const submit = async (action: "approve" | "reject") => {
+    setPending(true);
+    try {
+      const response = await fetch("/api/mutations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: confirmationId, action }),
+      });
+      const data = await response.json();
+      setStatus(data.status ?? (response.ok ? "approved" : "failed"));
+      setMessage(data.message ?? response.statusText);
+    } catch (e) {
+      setStatus("failed");
+      setMessage(e instanceof Error ? e.message : String(e));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const current = status ?? "pending";
+  const Icon = pending ? LoaderIcon : STATUS_ICONS[current];
+
+  return (
+    <div className="aui-mutation-confirmation-root mb-4 flex w-full flex-col gap-3 rounded-lg border py-3 text-sm">
+      <div className="aui-mutation-confirmation-header flex items-center gap-2 px-4">
+        <Icon
+          className={
+            pending || current === "running"
+              ? "size-4 shrink-0 animate-spin"
+              : "size-4 shrink-0"
+          }
+        />
+        <p className="flex-grow font-semibold">{STATUS_TITLES[current]}</p>
+      </div>
+      <ul className="aui-mutation-confirmation-preview flex flex-col gap-0.5 px-4">
+        {preview.map((line, index) => (
+          <li key={index}>{line}</li>
+        ))}
+      </ul>
+      {message && current !== "pending" && (
+        <p className="aui-mutation-confirmation-message px-4 text-muted-foreground">
+          {message}
+        </p>
+      )}
+      {current === "pending" && (
+        <div className="aui-mutation-confirmation-actions flex justify-end gap-2 px-4">
+          <Button
+            variant="ghost"
+            disabled={pending || status === null}
+            onClick={() => submit("reject")}
+          >
+            取り消し
+          </Button>
+          <Button
+            disabled={pending || status === null}
+            onClick={() => submit("approve")}
+          >
+            実行
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
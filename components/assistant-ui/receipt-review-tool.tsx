@@ -0,0 +1,383 @@
+"use client";
+
+import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
+import type { z } from "zod";
+import { useState, type FC } from "react";
+import {
+  AlertTriangleIcon,
+  CheckIcon,
+  CopyIcon,
+  LoaderIcon,
+  PlusIcon,
+  ReceiptTextIcon,
+  Trash2Icon,
+  XIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import {
+  RecordedRows,
+  type SpreadsheetRecordResult,
+} from "@/components/assistant-ui/receipt-tools";
+import type { receiptSchema } from "@/mastra/workflows/kakeibo-workflow";
+import type { DuplicateMatch } from "@/mastra/tools/receipt-fingerprint";
+import { validateReceipt } from "@/mastra/tools/receipt-validation";
+import { formatYen } from "@/lib/utils";
+
+type Receipt = z.infer<typeof receiptSchema>;
+type ReceiptItem = Receipt["items"][number];
+
+type ReceiptReviewArgs = {
+  runId: string;
+  receipt?: Receipt;
+  issues?: string[];
+  duplicates?: DuplicateMatch[];
+};
+
+type ReceiptReviewResult = SpreadsheetRecordResult & {
+  action: "confirm" | "cancel";
+};
+
+const emptyReceipt: Receipt = {
+  storeName: "",
+  date: "",
+  items: [],
+  subtotal: 0,
+  tax: 0,
+  total: 0,
+};
+
+export const ReceiptReviewTool: ToolCallMessagePartComponent<
+  ReceiptReviewArgs,
+  ReceiptReviewResult
+> = ({ args, result, addResult }) => {
+  if (result) {
+    return <ReceiptReviewOutcome result={result} />;
+  }
+
+  return (
+    <ReceiptReviewForm
+      runId={args.runId}
+      initialReceipt={args.receipt ?? emptyReceipt}
+      initialIssues={args.issues ?? []}
+      duplicates={args.duplicates ?? []}
+      onDone={addResult}
+    />
+  );
+};
+
+const ReceiptReviewOutcome: FC<{ result: ReceiptReviewResult }> = ({
+  result,
+}) => {
+  const Icon = result.success ? CheckIcon : XIcon;
+  return (
+    <div className="aui-receipt-review-outcome mb-4 flex w-full flex-col gap-3 rounded-lg border py-3 text-sm">
+      <div className="aui-receipt-review-header flex items-center gap-2 px-4">
+        <Icon className="size-4 shrink-0" />
+        <p className="flex-grow font-semibold">
+          {!result.success
+            ? result.action === "confirm"
+              ? "レシートを記録できませんでした"
+              : "レシートを破棄できませんでした"
+            : result.action === "confirm"
+              ? "レシートを記録しました"
+              : "レシートを破棄しました"}
+        </p>
+      </div>
+      <RecordedRows result={result} />
+    </div>
+  );
+};
+
+const totalLabels = {
+  subtotal: "小計",
+  tax: "消費税",
+  total: "合計",
+};
+
+type ReceiptReviewFormProps = {
+  runId: string;
+  initialReceipt: Receipt;
+  initialIssues: string[];
+  duplicates: DuplicateMatch[];
+  onDone: (result: ReceiptReviewResult) => void;
+};
+
+const ReceiptReviewForm: FC<ReceiptReviewFormProps> = ({
+  runId,
+  initialReceipt,
+  initialIssues,
+  duplicates,
+  onDone,
+}) => {
+  const [receipt, setReceiptState] = useState<Receipt>(initialReceipt);
+  const [edited, setEdited] = useState(false);
+  const [force, setForce] = useState(false);
+  const [acceptIssues, setAcceptIssues] = useState(false);
+  const [pending, setPending] = useState<"confirm" | "cancel" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 編集後はその場で整合性をチェックし直す（読み取れなかった項目の指摘は編集前のみ）
+  const issues = edited ? validateReceipt(receipt) : initialIssues;
+  const itemsTotal = receipt.items.reduce((sum, item) => sum + item.total, 0);
+
+  const setReceipt: typeof setReceiptState = (next) => {
+    setEdited(true);
+    setReceiptState(next);
+  };
+
+  const updateItem = (index: number, patch: Partial<ReceiptItem>) => {
+    setReceipt((current) => ({
+      ...current,
+      items: current.items.map((item, i) => {
+        if (i !== index) return item;
+        const next = { ...item, ...patch };
+        // 数量・単価を変えたら小計を計算し直す
+        if ("quantity" in patch || "price" in patch) {
+          next.total = next.quantity * next.price;
+        }
+        return next;
+      }),
+    }));
+  };
+
+  const submit = async (action: "confirm" | "cancel") => {
+    setPending(action);
+    setError(null);
+    try {
+      const response = await fetch("/api/receipt-review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          runId,
+          action,
+          receipt: action === "confirm" ? receipt : undefined,
+          force,
+          acceptIssues,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message ?? response.statusText);
+      }
+      onDone({ ...data, action });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="aui-receipt-review-root mb-4 flex w-full flex-col gap-3 rounded-lg border py-3 text-sm">
+      <div className="aui-receipt-review-header flex items-center gap-2 px-4">
+        <ReceiptTextIcon className="size-4" />
+        <p className="flex-grow font-semibold">レシートの確認</p>
+      </div>
+
+      <div className="aui-receipt-review-fields grid grid-cols-1 gap-2 px-4 @md:grid-cols-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">店舗名</span>
+          <Input
+            value={receipt.storeName}
+            onChange={(e) =>
+              setReceipt({ ...receipt, storeName: e.target.value })
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">日時</span>
+          <Input
+            type="datetime-local"
+            step={1}
+            value={receipt.date.slice(0, 19)}
+            onChange={(e) => setReceipt({ ...receipt, date: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">支払い方法</span>
+          <Input
+            value={receipt.paymentMethod ?? ""}
+            placeholder="現金、クレジットカードなど"
+            onChange={(e) =>
+              setReceipt({ ...receipt, paymentMethod: e.target.value })
+            }
+          />
+        </label>
+      </div>
+
+      <div className="aui-receipt-review-items flex flex-col gap-2 border-t px-4 pt-3">
+        <div className="grid grid-cols-[1fr_4rem_6rem_6rem_2rem] gap-2 text-muted-foreground">
+          <span>商品名</span>
+          <span>数量</span>
+          <span>単価</span>
+          <span>小計</span>
+          <span />
+        </div>
+        {receipt.items.map((item, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-[1fr_4rem_6rem_6rem_2rem] items-center gap-2"
+          >
+            <Input
+              value={item.name}
+              aria-label="商品名"
+              onChange={(e) => updateItem(index, { name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              value={item.quantity}
+              aria-label="数量"
+              onChange={(e) =>
+                updateItem(index, { quantity: Number(e.target.value) })
+              }
+            />
+            <Input
+              type="number"
+              value={item.price}
+              aria-label="単価"
+              onChange={(e) =>
+                updateItem(index, { price: Number(e.target.value) })
+              }
+            />
+            <Input
+              type="number"
+              value={item.total}
+              aria-label="小計"
+              onChange={(e) =>
+                updateItem(index, { total: Number(e.target.value) })
+              }
+            />
+            <TooltipIconButton
+              tooltip="商品を削除"
+              onClick={() =>
+                setReceipt({
+                  ...receipt,
+                  items: receipt.items.filter((_, i) => i !== index),
+                })
+              }
+            >
+              <Trash2Icon />
+            </TooltipIconButton>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="self-start"
+          onClick={() =>
+            setReceipt({
+              ...receipt,
+              items: [
+                ...receipt.items,
+                { name: "", quantity: 1, price: 0, total: 0 },
+              ],
+            })
+          }
+        >
+          <PlusIcon />
+          商品を追加
+        </Button>
+      </div>
+
+      <div className="aui-receipt-review-totals flex flex-col items-end gap-1 border-t px-4 pt-3">
+        <p className="text-muted-foreground">
+          商品の合計: {formatYen(itemsTotal)}
+        </p>
+        {(["subtotal", "tax", "total"] as const).map((field) => (
+          <label key={field} className="flex items-center gap-2">
+            <span>{totalLabels[field]}:</span>
+            <Input
+              type="number"
+              className="w-28"
+              value={receipt[field]}
+              onChange={(e) =>
+                setReceipt({ ...receipt, [field]: Number(e.target.value) })
+              }
+            />
+          </label>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="aui-receipt-review-issues mx-4 flex flex-col gap-1 rounded-md border border-amber-500/50 bg-amber-500/10 p-2">
+          {issues.map((issue) => (
+            <li key={issue} className="flex items-start gap-2">
+              <AlertTriangleIcon className="mt-0.5 size-4 shrink-0 text-amber-600" />
+              {issue}
+            </li>
+          ))}
+          <li className="pl-6">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={acceptIssues}
+                onChange={(e) => setAcceptIssues(e.target.checked)}
+              />
+              問題点を確認したうえで記録する
+            </label>
+          </li>
+        </ul>
+      )}
+
+      {duplicates.length > 0 && (
+        <div className="aui-receipt-review-duplicates mx-4 flex flex-col gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-2">
+          <p className="flex items-center gap-2 font-semibold">
+            <CopyIcon className="size-4 shrink-0" />
+            このレシートは既に記録されている可能性があります
+          </p>
+          <ul className="flex flex-col gap-0.5 pl-6">
+            {duplicates.map((match, index) => (
+              <li key={index}>
+                {match.date.slice(0, 10)} {match.storeName}{" "}
+                {formatYen(match.total)}（
+                {match.kind === "exact"
+                  ? "完全一致"
+                  : `類似度 ${Math.round(match.similarity * 100)}%`}
+                ）
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 pl-6">
+            <input
+              type="checkbox"
+              checked={force}
+              onChange={(e) => setForce(e.target.checked)}
+            />
+            別のレシートなので記録する
+          </label>
+        </div>
+      )}
+
+      {error && (
+        <p className="aui-receipt-review-error mx-4 rounded-md border border-destructive bg-destructive/10 p-2 text-destructive">
+          {error}
+        </p>
+      )}
+
+      <div className="aui-receipt-review-actions flex justify-end gap-2 px-4">
+        <Button
+          variant="ghost"
+          disabled={pending !== null}
+          onClick={() => submit("cancel")}
+        >
+          {pending === "cancel" && <LoaderIcon className="animate-spin" />}
+          破棄
+        </Button>
+        <Button
+          disabled={
+            pending !== null ||
+            receipt.items.length === 0 ||
+            (issues.length > 0 && !acceptIssues) ||
+            (duplicates.length > 0 && !force)
+          }
+          onClick={() => submit("confirm")}
+        >
+          {pending === "confirm" && <LoaderIcon className="animate-spin" />}
+          この内容で記録
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+"use client";
+
+import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
+import type { z } from "zod";
+import type { FC, ReactNode } from "react";
+import {
+  AlertCircleIcon,
+  CheckCircle2Icon,
+  CircleIcon,
+  DownloadIcon,
+  FileDownIcon,
+  ListChecksIcon,
+  LoaderIcon,
+  MinusCircleIcon,
+  PauseCircleIcon,
+  ReceiptTextIcon,
+  TableIcon,
+  XCircleIcon,
+} from "lucide-react";
+import type {
+  ReceiptProgress,
+  ReceiptProgressStatus,
+} from "@/app/api/chat/receipt-progress";
+import type { BudgetStatus } from "@/mastra/ledger/budgets";
+import type { KakeiboRow } from "@/mastra/tools/kakeibo-csv";
+import type { receiptSchema } from "@/mastra/workflows/kakeibo-workflow";
+import { cn, formatYen } from "@/lib/utils";
+
+type Receipt = z.infer<typeof receiptSchema>;
+
+export type LedgerExportResult = {
+  format: string;
+  fileName: string;
+  downloadUrl: string;
+  count: number;
+};
+
+export type SpreadsheetRecordResult = {
+  success: boolean;
+  message: string;
+  filePath?: string;
+  recordedCount?: number;
+  rows?: KakeiboRow[];
+  budgets?: BudgetStatus[];
+};
+
+const formatDate = (date: string) => date.replace("T", " ").slice(0, 16);
+
+const SpinnerIcon: FC<{ className?: string }> = ({ className }) => {
+  return <LoaderIcon className={cn(className, "animate-spin")} />;
+};
+
+const ToolCard: FC<{
+  icon: FC<{ className?: string }>;
+  title: string;
+  children?: ReactNode;
+}> = ({ icon: Icon, title, children }) => {
+  return (
+    <div className="aui-receipt-tool-root mb-4 flex w-full flex-col gap-3 rounded-lg border py-3 text-sm">
+      <div className="aui-receipt-tool-header flex items-center gap-2 px-4">
+        <Icon className="aui-receipt-tool-icon size-4" />
+        <p className="aui-receipt-tool-title flex-grow font-semibold">
+          {title}
+        </p>
+      </div>
+      {children}
+    </div>
+  );
+};
+
+const ReceiptTable: FC<{ receipt: Receipt }> = ({ receipt }) => {
+  return (
+    <div className="aui-receipt-table flex flex-col gap-2 px-4 font-mono">
+      <div className="aui-receipt-table-header flex flex-col items-center border-b border-dashed pb-2">
+        <p className="font-semibold">{receipt.storeName}</p>
+        <p className="text-muted-foreground">{formatDate(receipt.date)}</p>
+      </div>
+      <table className="aui-receipt-table-items w-full">
+        <tbody>
+          {receipt.items.map((item, index) => (
+            <tr key={index}>
+              <td className="py-0.5">{item.name}</td>
+              <td className="py-0.5 text-right text-muted-foreground">
+                {item.quantity > 1 &&
+                  `${item.quantity} × ${formatYen(item.price)}`}
+              </td>
+              <td className="py-0.5 text-right">{formatYen(item.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="aui-receipt-table-totals flex flex-col gap-0.5 border-t border-dashed pt-2">
+        <p className="flex justify-between">
+          <span>小計</span>
+          <span>{formatYen(receipt.subtotal)}</span>
+        </p>
+        <p className="flex justify-between">
+          <span>消費税</span>
+          <span>{formatYen(receipt.tax)}</span>
+        </p>
+        <p className="flex justify-between font-semibold">
+          <span>合計</span>
+          <span>{formatYen(receipt.total)}</span>
+        </p>
+        {receipt.paymentMethod && (
+          <p className="flex justify-between text-muted-foreground">
+            <span>支払い方法</span>
+            <span>{receipt.paymentMethod}</span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const BudgetBars: FC<{ budgets: BudgetStatus[] }> = ({ budgets }) => {
+  return (
+    <ul className="aui-budget-bars flex flex-col gap-2">
+      {budgets.map((budget) => (
+        <li key={budget.category} className="flex flex-col gap-1">
+          <p className="flex justify-between text-muted-foreground">
+            <span>
+              {budget.category}（{budget.month}）
+            </span>
+            <span>
+              {formatYen(budget.spent)} / {formatYen(budget.budget)}
+            </span>
+          </p>
+          <div className="aui-budget-bar h-1.5 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className={cn(
+                "h-full rounded-full bg-primary",
+                budget.threshold !== undefined && "bg-amber-500",
+                budget.usageRate >= 100 && "bg-destructive",
+              )}
+              style={{ width: `${Math.min(budget.usageRate, 100)}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const RecordedRows: FC<{ result: SpreadsheetRecordResult }> = ({
+  result,
+}) => {
+  return (
+    <div className="aui-recorded-rows flex flex-col gap-2 px-4">
+      <p className="whitespace-pre-line">{result.message}</p>
+      {result.rows && result.rows.length > 0 && (
+        <table className="aui-recorded-rows-table w-full">
+          <thead className="text-muted-foreground">
+            <tr className="border-b">
+              <th className="py-1 text-left font-normal">日付</th>
+              <th className="py-1 text-left font-normal">商品名</th>
+              <th className="py-1 text-left font-normal">カテゴリー</th>
+              <th className="py-1 text-right font-normal">数量</th>
+              <th className="py-1 text-right font-normal">小計</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.rows.map((row, index) => (
+              <tr key={index} className="border-b last:border-b-0">
+                <td className="py-1">{row.date.slice(0, 10)}</td>
+                <td className="py-1">{row.itemName}</td>
+                <td className="py-1">{row.category}</td>
+                <td className="py-1 text-right">{row.quantity}</td>
+                <td className="py-1 text-right">{formatYen(row.itemTotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {result.budgets && result.budgets.length > 0 && (
+        <BudgetBars budgets={result.budgets} />
+      )}
+      {result.success && (
+        <a
+          href="/api/ledger/csv"
+          className="aui-recorded-rows-download inline-flex items-center gap-1 self-start text-primary underline-offset-4 hover:underline"
+        >
+          <DownloadIcon className="size-4" />
+          kakeibo.csv をダウンロード
+        </a>
+      )}
+    </div>
+  );
+};
+
+const ToolError: FC<{ message: string }> = ({ message }) => {
+  return (
+    <p className="aui-receipt-tool-error mx-4 flex items-center gap-2 text-destructive">
+      <AlertCircleIcon className="size-4 shrink-0" />
+      {message}
+    </p>
+  );
+};
+
+const errorMessage = (result: unknown) =>
+  typeof result === "object" && result !== null && "error" in result
+    ? String(result.error)
+    : "ツールの実行に失敗しました";
+
+export const ReceiptOcrTool: ToolCallMessagePartComponent<
+  { imageUrl?: string },
+  Receipt
+> = ({ result, isError }) => {
+  if (result === undefined) {
+    return <ToolCard icon={SpinnerIcon} title="レシートを読み取っています…" />;
+  }
+
+  return (
+    <ToolCard icon={ReceiptTextIcon} title="レシートの読み取り結果">
+      {isError ? (
+        <ToolError message={errorMessage(result)} />
+      ) : (
+        <ReceiptTable receipt={result} />
+      )}
+    </ToolCard>
+  );
+};
+
+export const SpreadsheetRecordTool: ToolCallMessagePartComponent<
+  Receipt,
+  SpreadsheetRecordResult
+> = ({ result, isError }) => {
+  if (result === undefined) {
+    return <ToolCard icon={SpinnerIcon} title="家計簿に記録しています…" />;
+  }
+
+  return (
+    <ToolCard icon={TableIcon} title="家計簿への記録">
+      {isError ? (
+        <ToolError message={errorMessage(result)} />
+      ) : (
+        <RecordedRows result={result} />
+      )}
+    </ToolCard>
+  );
+};
+
+export const LedgerExportTool: ToolCallMessagePartComponent<
+  { format: string },
+  LedgerExportResult
+> = ({ result, isError }) => {
+  if (result === undefined) {
+    return <ToolCard icon={SpinnerIcon} title="家計簿を出力しています…" />;
+  }
+
+  return (
+    <ToolCard icon={FileDownIcon} title="家計簿の出力">
+      {isError ? (
+        <ToolError message={errorMessage(result)} />
+      ) : (
+        <div className="aui-ledger-export flex flex-col gap-1 px-4">
+          <p className="text-muted-foreground">
+            {result.count}件を出力しました
+          </p>
+          <a
+            href={result.downloadUrl}
+            download={result.fileName}
+            className="aui-ledger-export-download inline-flex items-center gap-1 self-start text-primary underline-offset-4 hover:underline"
+          >
+            <DownloadIcon className="size-4" />
+            {result.fileName} をダウンロード
+          </a>
+        </div>
+      )}
+    </ToolCard>
+  );
+};
+
+const PROGRESS_ICONS: Record<
+  ReceiptProgressStatus,
+  FC<{ className?: string }>
+> = {
+  pending: CircleIcon,
+  running: SpinnerIcon,
+  success: CheckCircle2Icon,
+  suspended: PauseCircleIcon,
+  failed: XCircleIcon,
+  skipped: MinusCircleIcon,
+};
+
+export const ReceiptProgressTool: ToolCallMessagePartComponent<
+  { label: string },
+  ReceiptProgress
+> = ({ args, result }) => {
+  const done = result?.result !== undefined;
+
+  return (
+    <ToolCard
+      icon={done ? ListChecksIcon : SpinnerIcon}
+      title={`${args.label}の処理${done ? "" : "中…"}`}
+    >
+      {result && (
+        <div className="aui-receipt-progress flex flex-col gap-1 px-4">
+          <ol className="aui-receipt-progress-steps flex flex-col gap-1">
+            {result.steps.map((step) => {
+              const Icon = PROGRESS_ICONS[step.status];
+              return (
+                <li
+                  key={step.id}
+                  className={cn(
+                    "flex items-center gap-2",
+                    step.status === "pending" && "text-muted-foreground",
+                    step.status === "failed" && "text-destructive",
+                  )}
+                >
+                  <Icon className="size-4 shrink-0" />
+                  {step.title}
+                </li>
+              );
+            })}
+          </ol>
+          {result.result && (
+            <p className="aui-receipt-progress-result border-t pt-2">
+              {result.result}
+            </p>
+          )}
+        </div>
+      )}
+    </ToolCard>
+  );
+};
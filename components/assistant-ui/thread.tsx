@@ -26,6 +26,14 @@ import * as m from "motion/react-m";
 import { Button } from "@/components/ui/button";
 import { MarkdownText } from "@/components/assistant-ui/markdown-text";
 import { ToolFallback } from "@/components/assistant-ui/tool-fallback";
+import { ReceiptReviewTool } from "@/components/assistant-ui/receipt-review-tool";
+import { MutationConfirmationTool } from "@/components/assistant-ui/mutation-confirmation-tool";
+import {
+  LedgerExportTool,
+  ReceiptOcrTool,
+  ReceiptProgressTool,
+  SpreadsheetRecordTool,
+} from "@/components/assistant-ui/receipt-tools";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
 import {
   ComposerAddAttachment,
@@ -248,7 +256,22 @@ const AssistantMessage: FC = () => {
           <MessagePrimitive.Parts
             components={{
               Text: MarkdownText,
-              tools: { Fallback: ToolFallback },
+              tools: {
+                by_name: {
+                  "receipt-progress": ReceiptProgressTool,
+                  "receipt-ocr": ReceiptOcrTool,
+                  "receipt-review": ReceiptReviewTool,
+                  "spreadsheet-record": SpreadsheetRecordTool,
+                  "ledger-export": LedgerExportTool,
+                  "receipt-update": MutationConfirmationTool,
+                  "receipt-delete": MutationConfirmationTool,
+                  "income-delete": MutationConfirmationTool,
+                  "recurring-expense-set": MutationConfirmationTool,
+                  "recurring-expense-delete": MutationConfirmationTool,
+                  "account-delete": MutationConfirmationTool,
+                },
+                Fallback: ToolFallback,
+              },
             }}
           />
           <MessageError />
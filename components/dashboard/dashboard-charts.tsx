@@ -0,0 +1,256 @@
+import type { FC, ReactNode } from "react";
+import type { DashboardData } from "@/app/dashboard/dashboard-data";
+import { cn, formatYen } from "@/lib/utils";
+
+// カレンダーに表示する月数（期間の最後の月から遡る）
+const CALENDAR_MONTHS = 3;
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+export const DashboardCard: FC<{
+  title: string;
+  className?: string;
+  children: ReactNode;
+}> = ({ title, className, children }) => {
+  return (
+    <section
+      className={cn(
+        "aui-dashboard-card flex flex-col gap-3 rounded-lg border p-4",
+        className,
+      )}
+    >
+      <h2 className="text-sm font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+};
+
+const EmptyState: FC = () => {
+  return (
+    <p className="text-sm text-muted-foreground">この条件の記録はありません</p>
+  );
+};
+
+export const MonthlyChart: FC<{ monthly: DashboardData["monthly"] }> = ({
+  monthly,
+}) => {
+  const max = Math.max(...monthly.map((month) => month.amount), 1);
+  const barWidth = 32;
+  const gap = 16;
+  const chartHeight = 140;
+  const width = monthly.length * (barWidth + gap);
+
+  return (
+    <div className="aui-monthly-chart overflow-x-auto">
+      <svg
+        viewBox={`0 0 ${width} ${chartHeight + 40}`}
+        className="h-48 min-w-full"
+        style={{ width: Math.max(width, 320) }}
+        role="img"
+        aria-label="月別の支出"
+      >
+        {monthly.map((month, index) => {
+          const height = (month.amount / max) * chartHeight;
+          const x = index * (barWidth + gap) + gap / 2;
+          return (
+            <g key={month.month}>
+              <title>{`${month.month}: ${formatYen(month.amount)}`}</title>
+              <rect
+                x={x}
+                y={chartHeight - height + 16}
+                width={barWidth}
+                height={height}
+                rx={4}
+                className="fill-primary"
+              />
+              {month.amount > 0 && (
+                <text
+                  x={x + barWidth / 2}
+                  y={chartHeight - height + 10}
+                  textAnchor="middle"
+                  className="fill-muted-foreground text-[9px]"
+                >
+                  {Math.round(month.amount / 1000).toLocaleString("ja-JP")}k
+                </text>
+              )}
+              <text
+                x={x + barWidth / 2}
+                y={chartHeight + 32}
+                textAnchor="middle"
+                className="fill-foreground text-[10px]"
+              >
+                {`${Number(month.month.slice(5))}月`}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export const CategoryBreakdown: FC<{
+  categories: DashboardData["categories"];
+}> = ({ categories }) => {
+  if (categories.length === 0) return <EmptyState />;
+
+  return (
+    <ul className="aui-category-breakdown flex flex-col gap-2 text-sm">
+      {categories.map((category) => (
+        <li key={category.category} className="flex flex-col gap-1">
+          <p className="flex justify-between">
+            <span>{category.category}</span>
+            <span className="text-muted-foreground">
+              {formatYen(category.amount)}（
+              {Math.round(category.share * 1000) / 10}%）
+            </span>
+          </p>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-primary"
+              style={{ width: `${category.share * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const TopStores: FC<{ stores: DashboardData["stores"] }> = ({
+  stores,
+}) => {
+  if (stores.length === 0) return <EmptyState />;
+
+  return (
+    <table className="aui-top-stores w-full text-sm">
+      <thead className="text-muted-foreground">
+        <tr className="border-b">
+          <th className="py-1 text-left font-normal">店舗名</th>
+          <th className="py-1 text-right font-normal">回数</th>
+          <th className="py-1 text-right font-normal">金額</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stores.map((store) => (
+          <tr key={store.storeName} className="border-b last:border-b-0">
+            <td className="py-1">{store.storeName}</td>
+            <td className="py-1 text-right">{store.receiptCount}</td>
+            <td className="py-1 text-right">{formatYen(store.amount)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// 月のカレンダー（日曜始まり）の各マス。月の前後の空きは null
+const calendarCells = (month: string): Array<string | null> => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const firstWeekday = new Date(year, monthNumber - 1, 1).getDay();
+  const days = new Date(year, monthNumber, 0).getDate();
+
+  return [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from(
+      { length: days },
+      (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`,
+    ),
+  ];
+};
+
+// 支出額が多い日ほど濃く塗る
+const intensityClass = (amount: number, max: number) => {
+  if (amount <= 0) return "bg-muted";
+  const ratio = amount / max;
+  if (ratio > 0.75) return "bg-primary text-primary-foreground";
+  if (ratio > 0.5) return "bg-primary/70 text-primary-foreground";
+  if (ratio > 0.25) return "bg-primary/40";
+  return "bg-primary/20";
+};
+
+export const SpendingCalendar: FC<{
+  daily: DashboardData["daily"];
+  months: string[];
+}> = ({ daily, months }) => {
+  const amounts = new Map(daily.map((day) => [day.date, day.amount]));
+  const max = Math.max(...daily.map((day) => day.amount), 1);
+
+  return (
+    <div className="aui-spending-calendar grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {months.slice(-CALENDAR_MONTHS).map((month) => (
+        <div key={month} className="flex flex-col gap-1">
+          <p className="text-xs text-muted-foreground">
+            {month.replace("-", "年")}月
+          </p>
+          <div className="grid grid-cols-7 gap-1 text-center text-[10px]">
+            {WEEKDAYS.map((weekday) => (
+              <span key={weekday} className="text-muted-foreground">
+                {weekday}
+              </span>
+            ))}
+            {calendarCells(month).map((date, index) => {
+              if (!date) return <span key={`empty-${index}`} />;
+              const amount = amounts.get(date) || 0;
+              return (
+                <span
+                  key={date}
+                  title={`${date}: ${formatYen(amount)}`}
+                  className={cn(
+                    "flex aspect-square items-center justify-center rounded",
+                    intensityClass(amount, max),
+                  )}
+                >
+                  {Number(date.slice(8))}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// 月ごとの収入・支出・収支（収支がマイナスの月は赤字で表示する）
+export const BalanceTable: FC<{ balances: DashboardData["balances"] }> = ({
+  balances,
+}) => {
+  if (balances.every((month) => month.income === 0 && month.expense === 0)) {
+    return <EmptyState />;
+  }
+
+  return (
+    <table className="aui-balance-table w-full text-sm">
+      <thead className="text-muted-foreground">
+        <tr className="border-b">
+          <th className="py-1 text-left font-normal">月</th>
+          <th className="py-1 text-right font-normal">収入</th>
+          <th className="py-1 text-right font-normal">支出</th>
+          <th className="py-1 text-right font-normal">収支</th>
+          <th className="py-1 text-right font-normal">貯蓄率</th>
+        </tr>
+      </thead>
+      <tbody>
+        {balances.map((month) => (
+          <tr key={month.month} className="border-b last:border-b-0">
+            <td className="py-1">{month.month}</td>
+            <td className="py-1 text-right">{formatYen(month.income)}</td>
+            <td className="py-1 text-right">{formatYen(month.expense)}</td>
+            <td
+              className={cn(
+                "py-1 text-right",
+                month.balance < 0 && "text-destructive",
+              )}
+            >
+              {formatYen(month.balance)}
+            </td>
+            <td className="py-1 text-right text-muted-foreground">
+              {month.savingsRate !== undefined ? `${month.savingsRate}%` : "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,64 @@
+import type { FC } from "react";
+import Link from "next/link";
+import type { DashboardData } from "@/app/dashboard/dashboard-data";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+// 絞り込み条件はURLのクエリとして送る（ページを再読み込みしても条件が残る）
+export const DashboardFilters: FC<{
+  filter: DashboardData["filter"];
+  options: DashboardData["options"];
+}> = ({ filter, options }) => {
+  return (
+    <form
+      method="get"
+      className="aui-dashboard-filters flex flex-wrap items-end gap-3 text-sm"
+    >
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">開始日</span>
+        <Input type="date" name="from" defaultValue={filter.startDate} />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">終了日</span>
+        <Input type="date" name="to" defaultValue={filter.endDate} />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">カテゴリー</span>
+        <select
+          name="category"
+          defaultValue={filter.category ?? ""}
+          className={selectClassName}
+        >
+          <option value="">すべて</option>
+          {options.categories.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">支払い方法</span>
+        <select
+          name="paymentMethod"
+          defaultValue={filter.paymentMethod ?? ""}
+          className={selectClassName}
+        >
+          <option value="">すべて</option>
+          {options.paymentMethods.map((paymentMethod) => (
+            <option key={paymentMethod} value={paymentMethod}>
+              {paymentMethod}
+            </option>
+          ))}
+        </select>
+      </label>
+      <Button type="submit">絞り込む</Button>
+      <Button variant="ghost" asChild>
+        <Link href="/dashboard">リセット</Link>
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,42 @@
+// ブラウザでPDFの各ページをサムネイル画像（PNGのdata URL）に描画する
+export async function renderPdfThumbnails(
+  source: File | string,
+  { maxPages = 5, width = 320 }: { maxPages?: number; width?: number } = {},
+): Promise<string[]> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url,
+  ).toString();
+
+  const data =
+    typeof source === "string"
+      ? await (await fetch(source)).arrayBuffer()
+      : await source.arrayBuffer();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const thumbnails: string[] = [];
+    for (
+      let pageNumber = 1;
+      pageNumber <= Math.min(pdf.numPages, maxPages);
+      pageNumber++
+    ) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({
+        scale: width / page.getViewport({ scale: 1 }).width,
+      });
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) break;
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      thumbnails.push(canvas.toDataURL("image/png"));
+    }
+    return thumbnails;
+  } finally {
+    await pdf.destroy();
+  }
+}
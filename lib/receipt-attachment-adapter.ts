@@ -0,0 +1,41 @@
+import type { AttachmentAdapter } from "@assistant-ui/react";
+import { generateId } from "ai";
+
+const getFileDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+
+// レシート画像とPDFの請求書、銀行・カードの明細CSVを添付できるようにする（送信時にdata URLとしてメッセージに含める）
+export const receiptAttachmentAdapter: AttachmentAdapter = {
+  accept: "image/*, application/pdf, text/csv, .csv",
+  async add({ file }) {
+    return {
+      id: generateId(),
+      type: file.type.startsWith("image/") ? "image" : "document",
+      name: file.name,
+      file,
+      contentType: file.type,
+      content: [],
+      status: { type: "requires-action", reason: "composer-send" },
+    };
+  },
+  async send(attachment) {
+    return {
+      ...attachment,
+      status: { type: "complete" },
+      content: [
+        {
+          type: "file",
+          mimeType: attachment.contentType ?? "application/octet-stream",
+          filename: attachment.name,
+          data: await getFileDataURL(attachment.file),
+        },
+      ],
+    };
+  },
+  async remove() {},
+};
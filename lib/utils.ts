@@ -4,3 +4,6 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export const formatYen = (value: number) =>
+  `${value.toLocaleString("ja-JP")}円`;
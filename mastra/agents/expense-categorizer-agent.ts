@@ -0,0 +1,17 @@
+import { Agent } from '@mastra/core/agent';
+import { modelFallbacks } from '../models';
+
+export const expenseCategorizerAgent = new Agent({
+  name: 'Expense Categorizer Agent',
+  instructions: `あなたは家計簿の支出分類の専門エージェントです。
+
+## タスク
+レシートの各商品を、指定されたカテゴリー一覧のいずれか1つに分類してください。
+
+## ルール
+1. カテゴリーは必ず指定された一覧の中から選ぶ（新しいカテゴリーを作らない）
+2. 店舗の種類も考慮する（例: 飲食店での飲食は外食、スーパーの食材は食費）
+3. 判断できない商品は「その他」にする
+4. 商品の順番と番号を変えずに、すべての商品を分類する`,
+  model: modelFallbacks('tools'),
+});
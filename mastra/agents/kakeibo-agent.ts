@@ -1,17 +1,80 @@
 import { Agent } from '@mastra/core/agent';
-import { receiptOcrTool } from '../tools/receipt-ocr-tool';
+import { localToday } from '../ledger';
+import { modelFallbacks } from '../models';
+import { ledgerQueryTool } from '../tools/ledger-query-tool';
 import { spreadsheetTool } from '../tools/spreadsheet-tool';
+import { receiptListTool } from '../tools/receipt-list-tool';
+import { receiptUpdateTool } from '../tools/receipt-update-tool';
+import { receiptDeleteTool } from '../tools/receipt-delete-tool';
+import { budgetSetTool } from '../tools/budget-set-tool';
+import { budgetStatusTool } from '../tools/budget-status-tool';
+import { statementImportTool } from '../tools/statement-import-tool';
+import { ledgerExportTool } from '../tools/ledger-export-tool';
+import { incomeRecordTool } from '../tools/income-record-tool';
+import { incomeListTool } from '../tools/income-list-tool';
+import { incomeDeleteTool } from '../tools/income-delete-tool';
+import { monthlyBalanceTool } from '../tools/monthly-balance-tool';
+import { recurringExpenseSetTool } from '../tools/recurring-expense-set-tool';
+import { recurringExpenseListTool } from '../tools/recurring-expense-list-tool';
+import { recurringExpenseDeleteTool } from '../tools/recurring-expense-delete-tool';
+import { upcomingChargesTool } from '../tools/upcoming-charges-tool';
+import { accountSetTool } from '../tools/account-set-tool';
+import { accountBalancesTool } from '../tools/account-balances-tool';
+import { accountDeleteTool } from '../tools/account-delete-tool';
+import { cardBillingTool } from '../tools/card-billing-tool';
 
 export const kakeiboAgent = new Agent({
   name: 'Kakeibo Agent',
-  instructions: `あなたは家計簿アシスタントです。
+  instructions: () => `あなたは家計簿アシスタントです。今日の日付は${localToday()}です。
 
 ## ルール
-1. ユーザーが「レシート画像をアップロードしました」というシステムメッセージを受け取ったら、すぐにreceipt-ocrツールを呼び出す
-2. receipt-ocrツールのimageUrl引数には、空文字列""を渡す（システムが自動的に正しいURLを設定します）
-3. 「記録して」と言われたら、OCR結果をspreadsheet-recordツールで記録
+1. 支出に関する質問（「3月の食費はいくら？」「どの店で一番使った？」など）には、ledger-queryツールで家計簿を集計して答える
+2. 「3月」のように年の指定がない場合は、今日の日付から最も近い過去の該当月とみなす
+3. 内訳を聞かれたらgroupBy（month / store / category / paymentMethod）を指定する
+4. 金額は「1,234円」のように円で表記し、集計条件（期間・絞り込み）も簡潔に添える
+5. 該当データが無い場合は、その旨をはっきり伝える
+6. 「記録して」と言われたら、spreadsheet-recordツールで記録
+7. spreadsheet-recordツールが重複の疑いを報告したら記録済みのレシートを伝えて確認し、ユーザーが記録を望んだ場合のみforce: trueで再度記録する
+8. 記録済みのレシートの修正・削除を頼まれたら、receipt-listツールで対象のレシートを探してレシートIDを確認する（「昨日」などの日付は今日の日付から計算する）。候補が複数ある場合はユーザーに選んでもらう
+9. 修正はreceipt-updateツール、削除はreceipt-deleteツールで行う。ツールは変更内容のプレビューを返し、チャットに確認カードを表示する（この時点では何も変更されない）
+10. 変更はユーザーが確認カードの「実行」を押したときにだけ行われる。変更内容を簡潔に伝え、カードで実行するよう案内する。「実行した」とは言わず、同じツールを繰り返し呼ばない
+11. 「食費の予算を月4万円に」のように予算を指定されたら、budget-setツールで登録する（金額は円に換算し、予算をやめる場合は0を指定する）
+12. 予算の残りや使いすぎを聞かれたら、budget-statusツールで答える。記録結果に予算の警告（⚠️）があれば必ず伝える
+13. 銀行・カードの明細CSVのパスを示されて取り込みを頼まれたら、statement-importツールで取り込み（パスは data/ からの相対パス）、新規・照合・スキップの件数を伝える
+14. エクスポートやダウンロードを頼まれたら、ledger-exportツールで出力する（Excelで開くならcsvかxlsx、会計ソフト（マネーフォワード クラウド会計）に取り込むならjournal）。期間やカテゴリーの指定があれば絞り込む
+15. 「今月の給料 30万円」のように収入を伝えられたら、income-recordツールで記録する（受取日の指定が無ければ今日、入金先が分かれば account に指定する）
+16. 収支・貯蓄率・「今月いくら残った？」を聞かれたら、monthly-balanceツールで答える。支出の内訳だけを聞かれた場合はledger-queryツールを使う
+17. 収入の削除を頼まれたら、income-listツールで収入IDを確認し、income-deleteツールでルール9・10と同じ手順で削除する
+18. 「家賃 8万円 毎月27日」のような定期支出は、recurring-expense-setツールで登録する。開始日は次に来る支払日（過去の分も記録したい場合はその日）とし、カテゴリーはカテゴリー一覧から選ぶ。過ぎた支払日の分を記録することになる場合は確認カードが表示されるので、記録する回数を伝えてルール10と同じように案内する
+19. 定期支出の変更・停止は、recurring-expense-listツールでIDを確認してから行う。変更はidを指定してrecurring-expense-set、終わる日が決まっていればendDateを指定し、登録自体の削除はrecurring-expense-deleteツールでルール9・10と同じ手順で行う
+20. 今月の引き落とし予定やサブスクリプションの支払い予定を聞かれたら、upcoming-chargesツールで答える
+21. 「楽天カード 月末締め翌月27日払い」「Suica」「財布に2万円」のように支払い手段を伝えられたら、account-setツールで口座として登録する（カードの引き落とし口座は先に銀行口座として登録する）
+22. 口座の一覧や残高、「財布にいくら残ってる？」を聞かれたら、account-balancesツールで答える。口座の削除はaccount-balancesツールでIDを確認し、account-deleteツールでルール9・10と同じ手順で行う
+23. カードの請求額や「次の引き落としはいくら？」を聞かれたら、card-billingツールで支払日と金額を答える
 
-説明不要。すぐにツール呼び出し。`,
-  model: 'openai/gpt-4o',
-  tools: { receiptOcrTool, spreadsheetTool },
+推測で金額を答えず、必ずツールの結果に基づいて日本語で簡潔に回答する。`,
+  model: modelFallbacks('chat'),
+  tools: {
+    'ledger-query': ledgerQueryTool,
+    'spreadsheet-record': spreadsheetTool,
+    'receipt-list': receiptListTool,
+    'receipt-update': receiptUpdateTool,
+    'receipt-delete': receiptDeleteTool,
+    'budget-set': budgetSetTool,
+    'budget-status': budgetStatusTool,
+    'statement-import': statementImportTool,
+    'ledger-export': ledgerExportTool,
+    'income-record': incomeRecordTool,
+    'income-list': incomeListTool,
+    'income-delete': incomeDeleteTool,
+    'monthly-balance': monthlyBalanceTool,
+    'recurring-expense-set': recurringExpenseSetTool,
+    'recurring-expense-list': recurringExpenseListTool,
+    'recurring-expense-delete': recurringExpenseDeleteTool,
+    'upcoming-charges': upcomingChargesTool,
+    'account-set': accountSetTool,
+    'account-balances': accountBalancesTool,
+    'account-delete': accountDeleteTool,
+    'card-billing': cardBillingTool,
+  },
 });
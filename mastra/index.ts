@@ -1,14 +1,18 @@
 
 import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
+import { LibSQLStore } from '@mastra/libsql';
 import { kakeiboWorkflow } from './workflows/kakeibo-workflow';
 import { kakeiboAgent } from './agents/kakeibo-agent';
-import { receiptOcrAgent } from './agents/receipt-ocr-agent';
-import { csvWriterAgent } from './agents/csv-writer-agent';
+import { expenseCategorizerAgent } from './agents/expense-categorizer-agent';
 
 export const mastra = new Mastra({
   workflows: { kakeiboWorkflow },
-  agents: { kakeiboAgent, receiptOcrAgent, csvWriterAgent },
+  agents: { kakeiboAgent, expenseCategorizerAgent },
+  // 確認待ち（suspend）のワークフローをリクエストをまたいで再開できるよう保存する
+  storage: new LibSQLStore({
+    url: process.env.MASTRA_STORAGE_URL || 'file:./data/mastra.db',
+  }),
   logger: new PinoLogger({
     name: 'Mastra',
     level: 'debug', // infoからdebugに変更してより詳細なログを出力
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { daysInMonth, formatDate } from './recurring';
+import { AccountRecord, AccountType, LedgerStore, ReceiptRecord, accountTypeSchema } from './types';
+
+export const accountBalanceSchema = z.object({
+  accountId: z.string().describe('口座ID'),
+  name: z.string().describe('名前'),
+  type: accountTypeSchema,
+  balance: z.number().describe('残高（クレジットカードは未払いの利用額をマイナスで表す）'),
+  income: z.number().describe('基準日以降の入金（収入）の合計'),
+  expense: z.number().describe('基準日以降の支出の合計（クレジットカードは未払いの利用額）'),
+  cardPayments: z.number().describe('基準日以降に引き落とされたクレジットカードの代金の合計（銀行口座のみ）'),
+});
+
+export type AccountBalance = z.infer<typeof accountBalanceSchema>;
+
+export const cardStatementSchema = z.object({
+  startDate: z.string().describe('利用期間の初日（YYYY-MM-DD形式）'),
+  closingDate: z.string().describe('締め日（YYYY-MM-DD形式）'),
+  paymentDate: z.string().describe('支払日（YYYY-MM-DD形式）'),
+  total: z.number().describe('請求額（この期間の利用額の合計）'),
+  receiptCount: z.number().describe('この期間のレシートの枚数'),
+  closed: z.boolean().describe('締め日を過ぎて請求額が確定しているかどうか'),
+});
+
+export type CardStatement = z.infer<typeof cardStatementSchema>;
+
+// 名前・別名を比べるときの表記（全角・半角、大文字・小文字、空白の違いを無視する）
+const normalizeName = (value: string) => value.normalize('NFKC').toLowerCase().replace(/\s/g, '');
+
+// 支払い方法の表記から種類を推測するキーワード（上から順に判定する。「交通系ICカード」「デビットカード」をカードとみなさないため）
+const TYPE_KEYWORDS: Array<[AccountType, RegExp]> = [
+  ['ic-card', /suica|pasmo|icoca|kitaca|manaca|toica|sugoca|nimoca|交通系|電子マネー|nanaco|waon|edy/],
+  ['qr', /paypay|ペイ|d払い|qr/],
+  ['bank', /口座|銀行|引き落とし|引落|振込|デビット|debit/],
+  ['credit-card', /クレジット|カード|credit|visa|master|jcb|amex|アメックス|diners/],
+  ['cash', /現金|cash|財布/],
+];
+
+// 支払い方法の表記（OCRの結果や明細の支払い方法）に当たる口座を探す
+// 1. 名前・別名と一致する口座 2. 名前・別名を含む口座（最も長く一致したもの） 3. 推測した種類の口座が1つだけならその口座
+export const findAccount = (accounts: AccountRecord[], text: string): AccountRecord | undefined => {
+  const target = normalizeName(text);
+  if (!target || target === '不明') {
+    return undefined;
+  }
+
+  const names = (account: AccountRecord) => [account.name, ...account.aliases].map(normalizeName).filter(Boolean);
+  const exact = accounts.find((account) => names(account).includes(target));
+  if (exact) {
+    return exact;
+  }
+
+  const [partial] = accounts
+    .map((account) => ({
+      account,
+      length: Math.max(0, ...names(account).filter((name) => target.includes(name)).map((name) => name.length)),
+    }))
+    .filter((candidate) => candidate.length > 0)
+    .sort((a, b) => b.length - a.length);
+  if (partial) {
+    return partial.account;
+  }
+
+  const type = TYPE_KEYWORDS.find(([, pattern]) => pattern.test(target))?.[0];
+  const candidates = accounts.filter((account) => account.type === type);
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+// 支払い方法を登録済みの口座の名前にそろえる（当たる口座が無ければそのまま返す）
+export const normalizePaymentMethod = async (store: LedgerStore, paymentMethod: string): Promise<string> => {
+  const account = findAccount(await store.listAccounts(), paymentMethod);
+  if (account && account.name !== paymentMethod) {
+    console.log('[DEBUG] Accounts - Normalized payment method:', paymentMethod, '->', account.name);
+  }
+  return account?.name || paymentMethod;
+};
+
+// 月をずらした年と月
+const addMonths = (year: number, month: number, months: number): [number, number] => {
+  const date = new Date(Date.UTC(year, month - 1 + months, 1));
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1];
+};
+
+// 締め日・支払日の日付（0と月末より後の日は、その月の末日にする）
+const dayOfMonth = (year: number, month: number, day: number) =>
+  formatDate(year, month, Math.min(day || 31, daysInMonth(year, month)));
+
+const nextDay = (date: string) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// 利用日が含まれる請求期間。締め日の翌月の支払日に引き落とされる
+export const billingCycle = (
+  account: AccountRecord,
+  date: string
+): Pick<CardStatement, 'startDate' | 'closingDate' | 'paymentDate'> => {
+  const [year, month] = date.slice(0, 7).split('-').map(Number);
+  const [closingYear, closingMonth] =
+    date.slice(0, 10) > dayOfMonth(year, month, account.closingDay) ? addMonths(year, month, 1) : [year, month];
+
+  return {
+    startDate: nextDay(dayOfMonth(...addMonths(closingYear, closingMonth, -1), account.closingDay)),
+    closingDate: dayOfMonth(closingYear, closingMonth, account.closingDay),
+    paymentDate: dayOfMonth(...addMonths(closingYear, closingMonth, 1), account.paymentDay),
+  };
+};
+
+// 口座ごとのレシート（支払い方法がどの口座にも当たらないレシートは含めない）
+const receiptsByAccount = (accounts: AccountRecord[], receipts: ReceiptRecord[]): Map<string, ReceiptRecord[]> => {
+  const accountIds = new Map<string, string | undefined>();
+  const grouped = new Map<string, ReceiptRecord[]>();
+  for (const receipt of receipts) {
+    if (!accountIds.has(receipt.paymentMethod)) {
+      accountIds.set(receipt.paymentMethod, findAccount(accounts, receipt.paymentMethod)?.id);
+    }
+    const accountId = accountIds.get(receipt.paymentMethod);
+    if (accountId) {
+      grouped.set(accountId, [...(grouped.get(accountId) || []), receipt]);
+    }
+  }
+  return grouped;
+};
+
+// カードの未払い（支払日が today より後）の利用額を請求期間ごとにまとめる
+// 先頭が次に引き落とされる請求で、利用の無い期間でも今日を含む請求期間は必ず含める
+const toCardStatements = (account: AccountRecord, receipts: ReceiptRecord[], today: string): CardStatement[] => {
+  const statements = new Map<string, CardStatement>();
+  const current = billingCycle(account, today);
+  statements.set(current.closingDate, { ...current, total: 0, receiptCount: 0, closed: false });
+
+  for (const receipt of receipts) {
+    const cycle = billingCycle(account, receipt.date);
+    if (cycle.paymentDate <= today) {
+      continue;
+    }
+    const statement = statements.get(cycle.closingDate) || {
+      ...cycle,
+      total: 0,
+      receiptCount: 0,
+      closed: cycle.closingDate < today,
+    };
+    statements.set(cycle.closingDate, {
+      ...statement,
+      total: statement.total + receipt.total,
+      receiptCount: statement.receiptCount + 1,
+    });
+  }
+  return [...statements.values()].sort((a, b) => a.closingDate.localeCompare(b.closingDate));
+};
+
+// クレジットカードの未払いの請求を、請求期間の古い順に返す
+export const getCardStatements = async (
+  store: LedgerStore,
+  account: AccountRecord,
+  today: string
+): Promise<CardStatement[]> => {
+  const receipts = receiptsByAccount(await store.listAccounts(), await store.listReceipts()).get(account.id) || [];
+  return toCardStatements(account, receipts, today);
+};
+
+// 口座ごとの残高を返す（登録日時の順）
+// 現金・IC・QR・銀行口座: 初期残高 + 基準日以降の入金 - 基準日以降の支出（銀行口座は引き落とされたカードの代金も引く）
+// クレジットカード: 未払いの利用額をマイナスの残高とする
+export const getAccountBalances = async (store: LedgerStore, today: string): Promise<AccountBalance[]> => {
+  const [accounts, receipts, incomes] = await Promise.all([
+    store.listAccounts(),
+    store.listReceipts({ endDate: today }),
+    store.listIncomes({ endDate: today }),
+  ]);
+  const receiptsOf = receiptsByAccount(accounts, receipts);
+  const sinceOpening = (account: AccountRecord, date: string) => date.slice(0, 10) >= account.openingDate;
+
+  return accounts.map((account) => {
+    const accountReceipts = receiptsOf.get(account.id) || [];
+    const base = { accountId: account.id, name: account.name, type: account.type };
+
+    if (account.type === 'credit-card') {
+      const unpaid = toCardStatements(account, accountReceipts, today).reduce((sum, statement) => sum + statement.total, 0);
+      return { ...base, balance: -unpaid, income: 0, expense: unpaid, cardPayments: 0 };
+    }
+
+    const income = incomes
+      .filter((entry) => findAccount(accounts, entry.account)?.id === account.id && sinceOpening(account, entry.date))
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    const expense = accountReceipts
+      .filter((receipt) => sinceOpening(account, receipt.date))
+      .reduce((sum, receipt) => sum + receipt.total, 0);
+    const cardPayments = accounts
+      .filter((card) => card.type === 'credit-card' && card.paymentAccountId === account.id)
+      .flatMap((card) =>
+        (receiptsOf.get(card.id) || []).map((receipt) => ({
+          paymentDate: billingCycle(card, receipt.date).paymentDate,
+          amount: receipt.total,
+        }))
+      )
+      .filter((payment) => payment.paymentDate <= today && sinceOpening(account, payment.paymentDate))
+      .reduce((sum, payment) => sum + payment.amount, 0);
+
+    return {
+      ...base,
+      balance: account.openingBalance + income - expense - cardPayments,
+      income,
+      expense,
+      cardPayments,
+    };
+  });
+};
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { LedgerStore } from './types';
+
+export const monthlyBalanceSchema = z.object({
+  month: z.string().describe('対象月（YYYY-MM形式）'),
+  income: z.number().describe('収入の合計'),
+  expense: z.number().describe('支出の合計（レシートの合計金額の合計）'),
+  balance: z.number().describe('収支（収入 - 支出）'),
+  savingsRate: z.number().optional().describe('貯蓄率（収支 ÷ 収入、%）。収入が無い月は省略'),
+});
+
+export type MonthlyBalance = z.infer<typeof monthlyBalanceSchema>;
+
+// 期間内の各月（YYYY-MM、両端を含む）
+export const monthsBetween = (startMonth: string, endMonth: string): string[] => {
+  const months: string[] = [];
+  const [endYear, endMonthNumber] = endMonth.slice(0, 7).split('-').map(Number);
+  let [year, month] = startMonth.slice(0, 7).split('-').map(Number);
+  while (year < endYear || (year === endYear && month <= endMonthNumber)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+  }
+  return months;
+};
+
+// 月の末日（YYYY-MM-DD）
+export const monthEnd = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${month}-${String(new Date(year, monthNumber, 0).getDate()).padStart(2, '0')}`;
+};
+
+// 月ごとの収入・支出・収支を返す（記録の無い月も0円で返す）
+// 支出は実際に支払った額として、商品の小計ではなくレシートの合計金額（税込）で数える
+export const getMonthlyBalances = async (
+  store: LedgerStore,
+  startMonth: string,
+  endMonth: string
+): Promise<MonthlyBalance[]> => {
+  const filter = { startDate: `${startMonth}-01`, endDate: monthEnd(endMonth) };
+  const [receipts, incomes] = await Promise.all([store.listReceipts(filter), store.listIncomes(filter)]);
+
+  const sumByMonth = (entries: Array<{ date: string; amount: number }>) => {
+    const sums = new Map<string, number>();
+    for (const entry of entries) {
+      sums.set(entry.date.slice(0, 7), (sums.get(entry.date.slice(0, 7)) || 0) + entry.amount);
+    }
+    return sums;
+  };
+  const expenses = sumByMonth(receipts.map((receipt) => ({ date: receipt.date, amount: receipt.total })));
+  const incomeSums = sumByMonth(incomes);
+
+  return monthsBetween(startMonth, endMonth).map((month) => {
+    const income = incomeSums.get(month) || 0;
+    const expense = expenses.get(month) || 0;
+    const balance = income - expense;
+    return {
+      month,
+      income,
+      expense,
+      balance,
+      savingsRate: income > 0 ? Math.round((balance / income) * 1000) / 10 : undefined,
+    };
+  });
+};
+
+// 1か月の収支を1行で説明する
+export const describeMonthlyBalance = (balance: MonthlyBalance): string => {
+  const yen = (amount: number) => `${amount.toLocaleString('ja-JP')}円`;
+  const sign = balance.balance > 0 ? '+' : '';
+  return `${balance.month}: 収入 ${yen(balance.income)} / 支出 ${yen(balance.expense)} / 収支 ${sign}${yen(balance.balance)}${
+    balance.savingsRate !== undefined ? `（貯蓄率 ${balance.savingsRate}%）` : ''
+  }`;
+};
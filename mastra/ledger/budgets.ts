@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { monthEnd } from './balance';
+import { allocateReceiptTotal } from './spending';
+import { LedgerStore } from './types';
+
+// 警告するしきい値（予算に対する支出の割合、%）。BUDGET_ALERT_THRESHOLDS にカンマ区切りで指定する
+const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+export const budgetStatusSchema = z.object({
+  category: z.string().describe('カテゴリー'),
+  month: z.string().describe('対象月（YYYY-MM形式）'),
+  budget: z.number().describe('1か月の予算'),
+  spent: z.number().describe('その月の支出合計（レシートの合計金額を商品ごとに配分した額の合計、税込）'),
+  remaining: z.number().describe('予算の残り（超過している場合はマイナス）'),
+  usageRate: z.number().describe('予算に対する支出の割合（%）'),
+  threshold: z.number().optional().describe('超えている警告のしきい値のうち最も大きいもの（%）'),
+});
+
+export type BudgetStatus = z.infer<typeof budgetStatusSchema>;
+
+export const budgetAlertThresholds = (): number[] => {
+  const thresholds = (process.env.BUDGET_ALERT_THRESHOLDS || '')
+    .split(',')
+    .map((value) => Number(value.trim()))
+    .filter((value) => value > 0);
+  return (thresholds.length > 0 ? thresholds : DEFAULT_ALERT_THRESHOLDS).sort((a, b) => a - b);
+};
+
+// 予算を登録したカテゴリーの、指定した月の支出と予算の残りを返す（categories 指定時はそのカテゴリーだけ）
+export const getBudgetStatuses = async (
+  store: LedgerStore,
+  month: string,
+  categories?: string[]
+): Promise<BudgetStatus[]> => {
+  const budgets = (await store.listBudgets()).filter(
+    (budget) => !categories || categories.includes(budget.category)
+  );
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const receipts = await store.listReceipts({ startDate: `${month}-01`, endDate: monthEnd(month) });
+  const items = await store.listReceiptItems(receipts.map((receipt) => receipt.id));
+
+  const spentByCategory = new Map<string, number>();
+  for (const receipt of receipts) {
+    const receiptItems = items.filter((item) => item.receiptId === receipt.id);
+    const amounts = allocateReceiptTotal(
+      receipt.total,
+      receiptItems.map((item) => item.total)
+    );
+    receiptItems.forEach((item, i) => {
+      const category = item.category || receipt.category;
+      spentByCategory.set(category, (spentByCategory.get(category) || 0) + amounts[i]);
+    });
+  }
+
+  const thresholds = budgetAlertThresholds();
+  return budgets.map((budget) => {
+    const spent = spentByCategory.get(budget.category) || 0;
+    const usageRate = budget.monthlyAmount > 0 ? Math.round((spent / budget.monthlyAmount) * 1000) / 10 : 0;
+    return {
+      category: budget.category,
+      month,
+      budget: budget.monthlyAmount,
+      spent,
+      remaining: budget.monthlyAmount - spent,
+      usageRate,
+      threshold: thresholds.filter((threshold) => usageRate >= threshold).pop(),
+    };
+  });
+};
+
+// 予算の残りを1行で説明する（しきい値を超えていれば警告を付ける）
+export const describeBudgetStatus = (status: BudgetStatus): string => {
+  const summary = status.remaining >= 0
+    ? `${status.category}の予算残り ${status.remaining.toLocaleString('ja-JP')}円（${status.usageRate}%使用）`
+    : `${status.category}の予算を ${(-status.remaining).toLocaleString('ja-JP')}円超えています（${status.usageRate}%使用）`;
+
+  if (status.threshold === undefined) {
+    return summary;
+  }
+  return `⚠️ ${summary}${status.threshold >= 100 ? '' : ` — 予算の${status.threshold}%を超えました`}`;
+};
@@ -0,0 +1,65 @@
+import '../test/temp-ledger-dir';
+import fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { ACCOUNTS_CSV_PATH, RECURRING_EXPENSES_CSV_PATH, createCsvLedgerStore } from './csv-ledger-store';
+import { recordDueRecurringExpenses } from './index';
+
+const INVALID_RECURRING_ROWS = [
+  'recurring-2,ジム,8000,趣味・娯楽,現金,daily,2026-01-01,,,2026-01-01T00:00:00.000Z',
+  'recurring-3,新聞,4000,教育・教養,現金,weekly,,,,2026-01-01T00:00:00.000Z',
+];
+
+describe('createCsvLedgerStore', () => {
+  it('値が不正な定期支出の行は読み飛ばし、定期支出を記録した後もファイルに残す', async () => {
+    const store = createCsvLedgerStore();
+    await store.init();
+    fs.writeFileSync(
+      RECURRING_EXPENSES_CSV_PATH,
+      [
+        '定期支出ID,名前,金額,カテゴリー,支払い方法,頻度,開始日,終了日,最終記録日,登録日時',
+        'recurring-1,家賃,80000,住居費,普通預金,monthly,2026-01-27,,2026-01-27,2026-01-01T00:00:00.000Z',
+        ...INVALID_RECURRING_ROWS,
+      ].join('\n') + '\n',
+      'utf-8'
+    );
+
+    const expenses = await store.listRecurringExpenses();
+    expect(expenses.map((expense) => expense.id)).toEqual(['recurring-1']);
+
+    // 不正な行があっても、支払日を迎えた定期支出の記録は終わる
+    const recorded = await recordDueRecurringExpenses(store, '2026-03-31');
+    expect(recorded.map((charge) => charge.date)).toEqual(['2026-02-27', '2026-03-27']);
+
+    const lines = fs.readFileSync(RECURRING_EXPENSES_CSV_PATH, 'utf-8').split('\n');
+    expect(lines).toEqual(expect.arrayContaining(INVALID_RECURRING_ROWS));
+    expect(lines).toContain('recurring-1,家賃,80000,住居費,普通預金,monthly,2026-01-27,,2026-03-27,2026-01-01T00:00:00.000Z');
+  });
+
+  it('種類が不正な口座の行は読み飛ばし、口座を登録した後もファイルに残す', async () => {
+    const store = createCsvLedgerStore();
+    const invalidRow = 'account-1,財布,wallet,,0,,0,0,,2026-01-01T00:00:00.000Z';
+    fs.writeFileSync(
+      ACCOUNTS_CSV_PATH,
+      `口座ID,名前,種類,別名,初期残高,残高の基準日,締め日,支払日,引き落とし口座ID,登録日時\n${invalidRow}\n`,
+      'utf-8'
+    );
+
+    expect(await store.listAccounts()).toEqual([]);
+
+    await store.setAccount({
+      id: 'account-2',
+      name: 'Suica',
+      type: 'ic-card',
+      aliases: [],
+      openingBalance: 1000,
+      openingDate: '2026-01-01',
+      closingDay: 0,
+      paymentDay: 0,
+      paymentAccountId: '',
+      createdAt: '2026-01-02T00:00:00.000Z',
+    });
+
+    expect((await store.listAccounts()).map((account) => account.id)).toEqual(['account-2']);
+    expect(fs.readFileSync(ACCOUNTS_CSV_PATH, 'utf-8').split('\n')).toContain(invalidRow);
+  });
+});
@@ -0,0 +1,423 @@
+import fs from 'fs';
+import path from 'path';
+import { KAKEIBO_DATA_DIR, escapeCSV, parseCSV } from '../tools/kakeibo-csv';
+import {
+  AccountRecord,
+  BudgetRecord,
+  IncomeRecord,
+  LedgerStore,
+  ReceiptFilter,
+  ReceiptItemRecord,
+  ReceiptRecord,
+  RecurringExpenseRecord,
+  RecurringFrequency,
+  accountTypeSchema,
+} from './types';
+import { recurringExpenseIssue } from './recurring';
+
+// レシートと明細の保存先（レシートIDで紐づける）
+export const RECEIPTS_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'receipts.csv');
+export const RECEIPT_ITEMS_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'receipt-items.csv');
+export const BUDGETS_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'budgets.csv');
+export const INCOMES_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'incomes.csv');
+export const RECURRING_EXPENSES_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'recurring-expenses.csv');
+export const ACCOUNTS_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'accounts.csv');
+
+const RECEIPTS_CSV_HEADER = 'レシートID,日付,店舗名,カテゴリー,小計,消費税,合計金額,支払い方法,登録日時\n';
+const RECEIPT_ITEMS_CSV_HEADER = 'レシートID,行番号,商品名,カテゴリー,数量,単価,小計\n';
+const BUDGETS_CSV_HEADER = 'カテゴリー,月予算,更新日時\n';
+const INCOMES_CSV_HEADER = '収入ID,受取日,収入源,入金先,金額,メモ,登録日時\n';
+const RECURRING_EXPENSES_CSV_HEADER = '定期支出ID,名前,金額,カテゴリー,支払い方法,頻度,開始日,終了日,最終記録日,登録日時\n';
+const ACCOUNTS_CSV_HEADER = '口座ID,名前,種類,別名,初期残高,残高の基準日,締め日,支払日,引き落とし口座ID,登録日時\n';
+
+// 別名は1列に「|」区切りで保存する
+const ALIAS_SEPARATOR = '|';
+
+const readRecords = (csvFilePath: string): string[][] => {
+  if (!fs.existsSync(csvFilePath)) {
+    return [];
+  }
+  const [, ...records] = parseCSV(fs.readFileSync(csvFilePath, 'utf-8'));
+  return records;
+};
+
+const readReceipts = (): ReceiptRecord[] =>
+  readRecords(RECEIPTS_CSV_PATH)
+    .filter((record) => record.length >= 9)
+    .map((record) => ({
+      id: record[0],
+      date: record[1],
+      storeName: record[2],
+      category: record[3],
+      subtotal: Number(record[4]) || 0,
+      tax: Number(record[5]) || 0,
+      total: Number(record[6]) || 0,
+      paymentMethod: record[7],
+      createdAt: record[8],
+    }));
+
+const readReceiptItems = (): ReceiptItemRecord[] =>
+  readRecords(RECEIPT_ITEMS_CSV_PATH)
+    .filter((record) => record.length >= 7)
+    .map((record) => ({
+      receiptId: record[0],
+      lineNo: Number(record[1]) || 0,
+      name: record[2],
+      category: record[3],
+      quantity: Number(record[4]) || 0,
+      price: Number(record[5]) || 0,
+      total: Number(record[6]) || 0,
+    }));
+
+const readBudgets = (): BudgetRecord[] =>
+  readRecords(BUDGETS_CSV_PATH)
+    .filter((record) => record.length >= 3)
+    .map((record) => ({
+      category: record[0],
+      monthlyAmount: Number(record[1]) || 0,
+      updatedAt: record[2],
+    }));
+
+const readIncomes = (): IncomeRecord[] =>
+  readRecords(INCOMES_CSV_PATH)
+    .filter((record) => record.length >= 7)
+    .map((record) => ({
+      id: record[0],
+      date: record[1],
+      source: record[2],
+      account: record[3],
+      amount: Number(record[4]) || 0,
+      memo: record[5],
+      createdAt: record[6],
+    }));
+
+// 値が不正で読み飛ばした行（手で編集した場合など）も含めた読み込み結果
+// 不正な行はファイルを書き直すときにそのまま書き戻し、ユーザーが直せるように残す
+type ParsedRecords<T> = { records: T[]; invalidRows: string[][] };
+
+// parse は行を変換するか、不正な理由を返す
+const parseRecords = <T>(
+  csvFilePath: string,
+  minLength: number,
+  parse: (record: string[]) => T | string
+): ParsedRecords<T> => {
+  const parsed: ParsedRecords<T> = { records: [], invalidRows: [] };
+  for (const record of readRecords(csvFilePath)) {
+    // 空行は残さない
+    if (record.every((value) => value === '')) {
+      continue;
+    }
+    const result = record.length >= minLength ? parse(record) : '列が足りません';
+    if (typeof result === 'string') {
+      console.log('[DEBUG] CSV Ledger Store - Skipped invalid row:', path.basename(csvFilePath), record[0], result);
+      parsed.invalidRows.push(record);
+    } else {
+      parsed.records.push(result);
+    }
+  }
+  return parsed;
+};
+
+const formatInvalidRow = (record: string[]): string => record.map(escapeCSV).join(',') + '\n';
+
+const readRecurringExpenses = (): ParsedRecords<RecurringExpenseRecord> =>
+  parseRecords(RECURRING_EXPENSES_CSV_PATH, 10, (record) => {
+    const expense = {
+      id: record[0],
+      name: record[1],
+      amount: Number(record[2]) || 0,
+      category: record[3],
+      paymentMethod: record[4],
+      frequency: record[5] as RecurringFrequency,
+      startDate: record[6],
+      endDate: record[7],
+      lastRecordedDate: record[8],
+      createdAt: record[9],
+    };
+    return recurringExpenseIssue(expense) ?? expense;
+  });
+
+const readAccounts = (): ParsedRecords<AccountRecord> =>
+  parseRecords(ACCOUNTS_CSV_PATH, 10, (record) => {
+    const type = accountTypeSchema.safeParse(record[2]);
+    if (!type.success) {
+      return `種類が不正です: ${record[2]}`;
+    }
+    return {
+      id: record[0],
+      name: record[1],
+      type: type.data,
+      aliases: record[3] ? record[3].split(ALIAS_SEPARATOR) : [],
+      openingBalance: Number(record[4]) || 0,
+      openingDate: record[5],
+      closingDay: Number(record[6]) || 0,
+      paymentDay: Number(record[7]) || 0,
+      paymentAccountId: record[8],
+      createdAt: record[9],
+    };
+  });
+
+const formatReceipt = (receipt: ReceiptRecord): string =>
+  [
+    receipt.id,
+    receipt.date,
+    escapeCSV(receipt.storeName),
+    escapeCSV(receipt.category),
+    receipt.subtotal,
+    receipt.tax,
+    receipt.total,
+    escapeCSV(receipt.paymentMethod),
+    receipt.createdAt,
+  ].join(',') + '\n';
+
+const formatReceiptItem = (item: ReceiptItemRecord): string =>
+  [
+    item.receiptId,
+    item.lineNo,
+    escapeCSV(item.name),
+    escapeCSV(item.category),
+    item.quantity,
+    item.price,
+    item.total,
+  ].join(',') + '\n';
+
+const formatBudget = (budget: BudgetRecord): string =>
+  [escapeCSV(budget.category), budget.monthlyAmount, budget.updatedAt].join(',') + '\n';
+
+const formatIncome = (income: IncomeRecord): string =>
+  [
+    income.id,
+    income.date,
+    escapeCSV(income.source),
+    escapeCSV(income.account),
+    income.amount,
+    escapeCSV(income.memo),
+    income.createdAt,
+  ].join(',') + '\n';
+
+const formatRecurringExpense = (expense: RecurringExpenseRecord): string =>
+  [
+    expense.id,
+    escapeCSV(expense.name),
+    expense.amount,
+    escapeCSV(expense.category),
+    escapeCSV(expense.paymentMethod),
+    expense.frequency,
+    expense.startDate,
+    expense.endDate,
+    expense.lastRecordedDate,
+    expense.createdAt,
+  ].join(',') + '\n';
+
+const formatAccount = (account: AccountRecord): string =>
+  [
+    account.id,
+    escapeCSV(account.name),
+    account.type,
+    escapeCSV(account.aliases.join(ALIAS_SEPARATOR)),
+    account.openingBalance,
+    account.openingDate,
+    account.closingDay,
+    account.paymentDay,
+    account.paymentAccountId,
+    account.createdAt,
+  ].join(',') + '\n';
+
+const writeAccounts = ({ records, invalidRows }: ParsedRecords<AccountRecord>) =>
+  writeFileAtomic(
+    ACCOUNTS_CSV_PATH,
+    ACCOUNTS_CSV_HEADER +
+      [...records].sort((a, b) => a.createdAt.localeCompare(b.createdAt)).map(formatAccount).join('') +
+      invalidRows.map(formatInvalidRow).join('')
+  );
+
+const writeRecurringExpenses = ({ records, invalidRows }: ParsedRecords<RecurringExpenseRecord>) =>
+  writeFileAtomic(
+    RECURRING_EXPENSES_CSV_PATH,
+    RECURRING_EXPENSES_CSV_HEADER +
+      [...records].sort((a, b) => a.createdAt.localeCompare(b.createdAt)).map(formatRecurringExpense).join('') +
+      invalidRows.map(formatInvalidRow).join('')
+  );
+
+const writeBudgets = (budgets: BudgetRecord[]) =>
+  writeFileAtomic(
+    BUDGETS_CSV_PATH,
+    BUDGETS_CSV_HEADER + [...budgets].sort((a, b) => a.category.localeCompare(b.category)).map(formatBudget).join('')
+  );
+
+// 一時ファイルに書いてから置き換え、書き込み途中のファイルが残らないようにする
+const writeFileAtomic = (filePath: string, content: string) => {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, content, 'utf-8');
+  fs.renameSync(tempPath, filePath);
+};
+
+// レシート・明細のファイルを丸ごと書き直す（更新・削除用）
+const rewriteLedger = (receipts: ReceiptRecord[], items: ReceiptItemRecord[]) => {
+  writeFileAtomic(RECEIPT_ITEMS_CSV_PATH, RECEIPT_ITEMS_CSV_HEADER + items.map(formatReceiptItem).join(''));
+  writeFileAtomic(RECEIPTS_CSV_PATH, RECEIPTS_CSV_HEADER + receipts.map(formatReceipt).join(''));
+};
+
+// CSVファイルに保存する（設定不要。トランザクションは無いため、明細を先に書いてレシートの行があるものだけを有効とする）
+export const createCsvLedgerStore = (): LedgerStore => ({
+  kind: 'csv',
+  location: RECEIPTS_CSV_PATH,
+
+  async init() {
+    if (!fs.existsSync(KAKEIBO_DATA_DIR)) {
+      fs.mkdirSync(KAKEIBO_DATA_DIR, { recursive: true });
+    }
+
+    if (!fs.existsSync(RECEIPT_ITEMS_CSV_PATH)) {
+      fs.writeFileSync(RECEIPT_ITEMS_CSV_PATH, RECEIPT_ITEMS_CSV_HEADER, 'utf-8');
+    }
+
+    if (fs.existsSync(RECEIPTS_CSV_PATH)) {
+      return false;
+    }
+    fs.writeFileSync(RECEIPTS_CSV_PATH, RECEIPTS_CSV_HEADER, 'utf-8');
+    return true;
+  },
+
+  async listReceipts(filter: ReceiptFilter = {}) {
+    return readReceipts()
+      .filter((receipt) => {
+        const day = receipt.date.slice(0, 10);
+        if (filter.startDate && day < filter.startDate) return false;
+        if (filter.endDate && day > filter.endDate) return false;
+        return true;
+      })
+      .sort((a, b) => a.date.localeCompare(b.date));
+  },
+
+  async listReceiptItems(receiptIds?: string[]) {
+    const ids = receiptIds && new Set(receiptIds);
+    return readReceiptItems()
+      .filter((item) => !ids || ids.has(item.receiptId))
+      .sort((a, b) => a.receiptId.localeCompare(b.receiptId) || a.lineNo - b.lineNo);
+  },
+
+  async getReceipt(id: string) {
+    return readReceipts().find((receipt) => receipt.id === id);
+  },
+
+  async addReceipt(receipt: ReceiptRecord, items: ReceiptItemRecord[]) {
+    fs.appendFileSync(RECEIPT_ITEMS_CSV_PATH, items.map(formatReceiptItem).join(''), 'utf-8');
+    fs.appendFileSync(RECEIPTS_CSV_PATH, formatReceipt(receipt), 'utf-8');
+  },
+
+  async updateReceipt(receipt: ReceiptRecord, items: ReceiptItemRecord[]) {
+    const receipts = readReceipts();
+    if (!receipts.some((other) => other.id === receipt.id)) {
+      return false;
+    }
+
+    rewriteLedger(
+      receipts.map((other) => (other.id === receipt.id ? receipt : other)),
+      [...readReceiptItems().filter((item) => item.receiptId !== receipt.id), ...items]
+    );
+    return true;
+  },
+
+  async deleteReceipt(id: string) {
+    const receipts = readReceipts();
+    if (!receipts.some((receipt) => receipt.id === id)) {
+      return false;
+    }
+
+    rewriteLedger(
+      receipts.filter((receipt) => receipt.id !== id),
+      readReceiptItems().filter((item) => item.receiptId !== id)
+    );
+    return true;
+  },
+
+  async listBudgets() {
+    return readBudgets().sort((a, b) => a.category.localeCompare(b.category));
+  },
+
+  async setBudget(budget: BudgetRecord) {
+    writeBudgets([...readBudgets().filter((other) => other.category !== budget.category), budget]);
+  },
+
+  async deleteBudget(category: string) {
+    const budgets = readBudgets();
+    if (!budgets.some((budget) => budget.category === category)) {
+      return false;
+    }
+    writeBudgets(budgets.filter((budget) => budget.category !== category));
+    return true;
+  },
+
+  async listIncomes(filter: ReceiptFilter = {}) {
+    return readIncomes()
+      .filter((income) => {
+        if (filter.startDate && income.date < filter.startDate) return false;
+        if (filter.endDate && income.date > filter.endDate) return false;
+        return true;
+      })
+      .sort((a, b) => a.date.localeCompare(b.date));
+  },
+
+  async addIncome(income: IncomeRecord) {
+    if (!fs.existsSync(INCOMES_CSV_PATH)) {
+      fs.writeFileSync(INCOMES_CSV_PATH, INCOMES_CSV_HEADER, 'utf-8');
+    }
+    fs.appendFileSync(INCOMES_CSV_PATH, formatIncome(income), 'utf-8');
+  },
+
+  async deleteIncome(id: string) {
+    const incomes = readIncomes();
+    if (!incomes.some((income) => income.id === id)) {
+      return false;
+    }
+    writeFileAtomic(
+      INCOMES_CSV_PATH,
+      INCOMES_CSV_HEADER + incomes.filter((income) => income.id !== id).map(formatIncome).join('')
+    );
+    return true;
+  },
+
+  async listRecurringExpenses() {
+    return readRecurringExpenses().records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  // 同じIDの不正な行は、登録し直した内容で置き換える
+  async setRecurringExpense(expense: RecurringExpenseRecord) {
+    const { records, invalidRows } = readRecurringExpenses();
+    writeRecurringExpenses({
+      records: [...records.filter((other) => other.id !== expense.id), expense],
+      invalidRows: invalidRows.filter((row) => row[0] !== expense.id),
+    });
+  },
+
+  async deleteRecurringExpense(id: string) {
+    const { records, invalidRows } = readRecurringExpenses();
+    if (!records.some((expense) => expense.id === id)) {
+      return false;
+    }
+    writeRecurringExpenses({ records: records.filter((expense) => expense.id !== id), invalidRows });
+    return true;
+  },
+
+  async listAccounts() {
+    return readAccounts().records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async setAccount(account: AccountRecord) {
+    const { records, invalidRows } = readAccounts();
+    writeAccounts({
+      records: [...records.filter((other) => other.id !== account.id), account],
+      invalidRows: invalidRows.filter((row) => row[0] !== account.id),
+    });
+  },
+
+  async deleteAccount(id: string) {
+    const { records, invalidRows } = readAccounts();
+    if (!records.some((account) => account.id === id)) {
+      return false;
+    }
+    writeAccounts({ records: records.filter((account) => account.id !== id), invalidRows });
+    return true;
+  },
+});
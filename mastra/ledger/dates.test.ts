@@ -0,0 +1,28 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { localDateTime, localMonth, localToday } from './dates';
+
+// 日本時間 2026-11-01 01:30（UTC では前日の 2026-10-31 16:30）
+const JST_EARLY_MORNING = new Date('2026-10-31T16:30:00Z');
+
+describe('dates', () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = 'Asia/Tokyo';
+  });
+  afterAll(() => {
+    if (originalTz === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTz;
+    }
+  });
+
+  it('今日・今月はUTCではなくローカルタイムの暦で決める', () => {
+    expect(localToday(JST_EARLY_MORNING)).toBe('2026-11-01');
+    expect(localMonth(JST_EARLY_MORNING)).toBe('2026-11');
+  });
+
+  it('日時はレシートの購入日時と同じ形式のローカルタイムで返す', () => {
+    expect(localDateTime(JST_EARLY_MORNING)).toBe('2026-11-01T01:30:00');
+  });
+});
@@ -0,0 +1,20 @@
+import { formatDate } from './recurring';
+
+// 「今日」「今月」はサーバーのタイムゾーン（TZ）の暦で決める
+// toISOString() は UTC なので、日本時間の0時〜9時に前日の日付になる。今日の日付には使わない
+
+// 日時の日付（YYYY-MM-DD、ローカルタイム）
+export const toLocalDate = (date: Date): string =>
+  formatDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+
+// 今日の日付（YYYY-MM-DD）
+export const localToday = (now: Date = new Date()): string => toLocalDate(now);
+
+// 今月（YYYY-MM）
+export const localMonth = (now: Date = new Date()): string => localToday(now).slice(0, 7);
+
+// 日時（YYYY-MM-DDTHH:mm:ss、ローカルタイム。レシートの購入日時と同じ形式）
+export const localDateTime = (now: Date = new Date()): string =>
+  `${toLocalDate(now)}T${[now.getHours(), now.getMinutes(), now.getSeconds()]
+    .map((value) => String(value).padStart(2, '0'))
+    .join(':')}`;
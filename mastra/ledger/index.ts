@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { KAKEIBO_CSV_PATH, KakeiboRow, readKakeiboRows } from '../tools/kakeibo-csv';
+import { normalizePaymentMethod } from './accounts';
+import { RECEIPTS_CSV_PATH, createCsvLedgerStore } from './csv-ledger-store';
+import { createLibsqlLedgerStore } from './libsql-ledger-store';
+import { localToday } from './dates';
+import { RecurringCharge, dueDates, recurringExpenseIssue, toCharge } from './recurring';
+import { SpendingRow, toSpendingRows } from './spending';
+import {
+  IncomeRecord,
+  LedgerStore,
+  NewIncome,
+  NewReceipt,
+  NewReceiptItem,
+  ReceiptFilter,
+  ReceiptItemRecord,
+  ReceiptRecord,
+  ReceiptWithItems,
+} from './types';
+
+export * from './types';
+export * from './budgets';
+export * from './balance';
+export * from './recurring';
+export * from './accounts';
+export * from './spending';
+export * from './dates';
+
+// 保存先は LEDGER_STORE（csv / libsql、既定は csv）で切り替える
+const createLedgerStore = (): LedgerStore => {
+  const kind = process.env.LEDGER_STORE || 'csv';
+
+  switch (kind) {
+    case 'csv':
+      return createCsvLedgerStore();
+    case 'libsql':
+      return createLibsqlLedgerStore({
+        url: process.env.LEDGER_DB_URL || 'file:./data/ledger.db',
+        authToken: process.env.LEDGER_DB_AUTH_TOKEN,
+      });
+    default:
+      throw new Error(`LEDGER_STORE の値が不正です: ${kind}（csv または libsql を指定してください）`);
+  }
+};
+
+let ledgerStore: Promise<LedgerStore> | undefined;
+
+// 定期支出を記録した日と、その処理（日付が変わって最初に家計簿を開いたときに、支払日を迎えたものを記録する）
+// done はその日に記録した定期支出で、失敗した場合は recurringRecording ごと取り消す
+let recurringRecording: { date: string; done: Promise<RecurringCharge[]> } | undefined;
+
+// 家計簿の保存先を取得する。初回は保存先を用意し、既存のデータを取り込む
+export const getLedgerStore = async (): Promise<LedgerStore> => {
+  if (!ledgerStore) {
+    ledgerStore = openLedgerStore().catch((error) => {
+      ledgerStore = undefined;
+      throw error;
+    });
+  }
+  const store = await ledgerStore;
+
+  const today = localToday();
+  if (recurringRecording?.date !== today) {
+    recurringRecording = {
+      date: today,
+      // 記録に失敗しても家計簿は開けるようにし、次に開いたときにやり直す
+      done: recordDueRecurringExpenses(store, today).catch((error) => {
+        console.log('[DEBUG] Ledger Store - Failed to record recurring expenses:', error);
+        recurringRecording = undefined;
+        return [];
+      }),
+    };
+  }
+  await recurringRecording.done;
+  return store;
+};
+
+// 今日の分の定期支出の記録を済ませ、今日記録した定期支出を返す（定期実行用）
+// 家計簿を開いたときの記録が今日すでに済んでいれば、そのとき記録したものを返す。失敗していればやり直し、エラーを返す
+export const recordRecurringExpensesForToday = async (): Promise<RecurringCharge[]> => {
+  const store = await getLedgerStore();
+  if (!recurringRecording) {
+    return recordDueRecurringExpenses(store, localToday());
+  }
+  return recurringRecording.done;
+};
+
+const openLedgerStore = async (): Promise<LedgerStore> => {
+  const store = createLedgerStore();
+  console.log('[DEBUG] Ledger Store - Kind:', store.kind, 'Location:', store.location);
+
+  if (await store.init()) {
+    await importExistingLedger(store);
+  }
+  return store;
+};
+
+// 新しく作った保存先に、CSV保存先のデータか旧形式の家計簿CSVを取り込む
+const importExistingLedger = async (store: LedgerStore) => {
+  if (store.kind !== 'csv' && fs.existsSync(RECEIPTS_CSV_PATH)) {
+    const source = createCsvLedgerStore();
+    const receipts = await source.listReceipts();
+    const items = await source.listReceiptItems();
+    for (const receipt of receipts) {
+      await store.addReceipt(
+        receipt,
+        items.filter((item) => item.receiptId === receipt.id)
+      );
+    }
+    for (const budget of await source.listBudgets()) {
+      await store.setBudget(budget);
+    }
+    for (const income of await source.listIncomes()) {
+      await store.addIncome(income);
+    }
+    for (const expense of await source.listRecurringExpenses()) {
+      await store.setRecurringExpense(expense);
+    }
+    for (const account of await source.listAccounts()) {
+      await store.setAccount(account);
+    }
+    console.log('[DEBUG] Ledger Store - Imported receipts from CSV store:', receipts.length);
+    return;
+  }
+
+  if (fs.existsSync(KAKEIBO_CSV_PATH)) {
+    const imported = await importKakeiboCsv(store, KAKEIBO_CSV_PATH);
+    console.log('[DEBUG] Ledger Store - Imported legacy receipts:', imported);
+  }
+};
+
+// 購入日と乱数からレシートIDを作る（例: 20200101-3f9a1c）
+export const createReceiptId = (date: string): string =>
+  `${date.slice(0, 10).replace(/\D/g, '') || 'nodate'}-${crypto.randomBytes(3).toString('hex')}`;
+
+// レシート1枚と明細を保存し、採番したレシートIDを付けて返す（支払い方法は登録済みの口座の名前にそろえる）
+export const recordReceipt = async (
+  store: LedgerStore,
+  receipt: NewReceipt,
+  items: NewReceiptItem[]
+): Promise<{ receipt: ReceiptRecord; items: ReceiptItemRecord[] }> => {
+  const record: ReceiptRecord = {
+    ...receipt,
+    paymentMethod: await normalizePaymentMethod(store, receipt.paymentMethod),
+    id: createReceiptId(receipt.date),
+    createdAt: new Date().toISOString(),
+  };
+  const itemRecords = items.map((item, i) => ({ ...item, receiptId: record.id, lineNo: i + 1 }));
+
+  await store.addReceipt(record, itemRecords);
+  return { receipt: record, items: itemRecords };
+};
+
+// 収入を保存し、採番した収入IDを付けて返す（例: income-20240125-3f9a1c）。入金先は登録済みの口座の名前にそろえる
+export const recordIncome = async (store: LedgerStore, income: NewIncome): Promise<IncomeRecord> => {
+  const record: IncomeRecord = {
+    ...income,
+    account: income.account && (await normalizePaymentMethod(store, income.account)),
+    id: `income-${createReceiptId(income.date)}`,
+    createdAt: new Date().toISOString(),
+  };
+  await store.addIncome(record);
+  return record;
+};
+
+// 支払日（today 以前）を迎えた定期支出を、1回につきレシート1枚として記録する
+export const recordDueRecurringExpenses = async (store: LedgerStore, today: string): Promise<RecurringCharge[]> => {
+  const recorded: RecurringCharge[] = [];
+  for (const expense of await store.listRecurringExpenses()) {
+    // 支払日を計算できない定期支出は飛ばし、他の定期支出の記録は続ける
+    const issue = recurringExpenseIssue(expense);
+    if (issue) {
+      console.log('[DEBUG] Ledger Store - Skipped recurring expense:', expense.id, issue);
+      continue;
+    }
+    const dates = dueDates(expense, expense.startDate, today).filter((date) => date > expense.lastRecordedDate);
+
+    for (const date of dates) {
+      const { receipt } = await recordReceipt(
+        store,
+        {
+          date,
+          storeName: expense.name,
+          category: expense.category,
+          subtotal: expense.amount,
+          tax: 0,
+          total: expense.amount,
+          paymentMethod: expense.paymentMethod,
+        },
+        [{ name: expense.name, category: expense.category, quantity: 1, price: expense.amount, total: expense.amount }]
+      );
+      // 1回記録するごとに保存し、途中で失敗しても同じ支払日を二重に記録しないようにする
+      await store.setRecurringExpense({ ...expense, lastRecordedDate: date });
+      recorded.push(toCharge(expense, date, receipt.id));
+    }
+  }
+
+  if (recorded.length > 0) {
+    console.log('[DEBUG] Ledger Store - Recorded recurring expenses:', recorded.length);
+  }
+  return recorded;
+};
+
+// レシートIDで明細付きのレシートを取得する
+export const getReceiptWithItems = async (
+  store: LedgerStore,
+  id: string
+): Promise<ReceiptWithItems | undefined> => {
+  const receipt = await store.getReceipt(id);
+  if (!receipt) {
+    return undefined;
+  }
+  return { ...receipt, items: await store.listReceiptItems([id]) };
+};
+
+// レシートと明細を家計簿の行（1商品1行）に展開する
+export const toKakeiboRows = (receipt: ReceiptRecord, items: ReceiptItemRecord[]): KakeiboRow[] =>
+  items.map((item) => ({
+    receiptId: receipt.id,
+    date: receipt.date,
+    storeName: receipt.storeName,
+    category: item.category || receipt.category,
+    itemName: item.name,
+    quantity: item.quantity,
+    price: item.price,
+    itemTotal: item.total,
+    tax: receipt.tax,
+    total: receipt.total,
+    paymentMethod: receipt.paymentMethod,
+  }));
+
+// 記録済みのレシートを家計簿の行に展開する（集計・エクスポート用）
+export const listKakeiboRows = async (filter?: ReceiptFilter): Promise<KakeiboRow[]> => {
+  const store = await getLedgerStore();
+  const receipts = await store.listReceipts(filter);
+  const items = await store.listReceiptItems(filter ? receipts.map((receipt) => receipt.id) : undefined);
+
+  const itemsByReceipt = new Map<string, ReceiptItemRecord[]>();
+  for (const item of items) {
+    itemsByReceipt.set(item.receiptId, [...(itemsByReceipt.get(item.receiptId) || []), item]);
+  }
+
+  return receipts.flatMap((receipt) => toKakeiboRows(receipt, itemsByReceipt.get(receipt.id) || []));
+};
+
+// 記録済みのレシートを、支払額を配分した家計簿の行に展開する（支出の集計用）
+export const listSpendingRows = async (filter?: ReceiptFilter): Promise<SpendingRow[]> =>
+  toSpendingRows(await listKakeiboRows(filter));
+
+// 家計簿CSV（旧形式・エクスポート形式）を取り込み、取り込んだレシート枚数を返す
+// 同じ日時・店舗・合計金額のレシートが記録済みなら取り込まない
+export const importKakeiboCsv = async (store: LedgerStore, csvFilePath: string): Promise<number> => {
+  const groups = new Map<string, KakeiboRow[]>();
+  for (const row of readKakeiboRows(csvFilePath)) {
+    // エクスポート形式は消費税・合計金額が先頭の行にしか無いので、レシートIDでまとめる
+    const key = row.receiptId || `${row.date}|${row.storeName}|${row.total}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const receiptKey = (receipt: { date: string; storeName: string; total: number }) =>
+    `${receipt.date}|${receipt.storeName}|${receipt.total}`;
+  const recorded = new Set((await store.listReceipts()).map(receiptKey));
+
+  let imported = 0;
+  for (const rows of groups.values()) {
+    const [first] = rows;
+    const receipt: NewReceipt = {
+      date: first.date,
+      storeName: first.storeName,
+      category: mainCategory(rows),
+      subtotal: rows.reduce((sum, row) => sum + row.itemTotal, 0),
+      tax: Math.max(...rows.map((row) => row.tax)),
+      total: Math.max(...rows.map((row) => row.total)),
+      paymentMethod: first.paymentMethod,
+    };
+
+    if (recorded.has(receiptKey(receipt))) {
+      continue;
+    }
+
+    await recordReceipt(
+      store,
+      receipt,
+      rows.map((row) => ({
+        name: row.itemName,
+        category: row.category,
+        quantity: row.quantity,
+        price: row.price,
+        total: row.itemTotal,
+      }))
+    );
+    recorded.add(receiptKey(receipt));
+    imported++;
+  }
+
+  return imported;
+};
+
+// 金額が最も大きいカテゴリー
+const mainCategory = (rows: KakeiboRow[]): string => {
+  const amountByCategory = new Map<string, number>();
+  for (const row of rows) {
+    amountByCategory.set(row.category, (amountByCategory.get(row.category) || 0) + row.itemTotal);
+  }
+  return [...amountByCategory.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '未分類';
+};
@@ -0,0 +1,381 @@
+// @mastra/libsql の LibSQLStore は Mastra 自身のテーブル（スレッド・ワークフローなど）用で、任意のSQLを実行する公開APIが無い
+// 家計簿の日付での絞り込み・upsert・トランザクションには、LibSQLStore が内部で使っている @libsql/client（同じバージョン）を直接使う
+import { createClient, InStatement, Row } from '@libsql/client';
+import {
+  AccountRecord,
+  AccountType,
+  BudgetRecord,
+  IncomeRecord,
+  LedgerStore,
+  ReceiptFilter,
+  ReceiptItemRecord,
+  ReceiptRecord,
+  RecurringExpenseRecord,
+  RecurringFrequency,
+  accountTypeSchema,
+} from './types';
+import { recurringExpenseIssue } from './recurring';
+
+const CREATE_TABLES: string[] = [
+  `CREATE TABLE IF NOT EXISTS ledger_receipts (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    store_name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    subtotal REAL NOT NULL,
+    tax REAL NOT NULL,
+    total REAL NOT NULL,
+    payment_method TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS ledger_receipts_date ON ledger_receipts (date)`,
+  `CREATE TABLE IF NOT EXISTS ledger_receipt_items (
+    receipt_id TEXT NOT NULL REFERENCES ledger_receipts (id) ON DELETE CASCADE,
+    line_no INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    price REAL NOT NULL,
+    total REAL NOT NULL,
+    PRIMARY KEY (receipt_id, line_no)
+  )`,
+  `CREATE TABLE IF NOT EXISTS ledger_budgets (
+    category TEXT PRIMARY KEY,
+    monthly_amount REAL NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS ledger_incomes (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    source TEXT NOT NULL,
+    account TEXT NOT NULL,
+    amount REAL NOT NULL,
+    memo TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS ledger_incomes_date ON ledger_incomes (date)`,
+  `CREATE TABLE IF NOT EXISTS ledger_recurring_expenses (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    amount REAL NOT NULL,
+    category TEXT NOT NULL,
+    payment_method TEXT NOT NULL,
+    frequency TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    last_recorded_date TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS ledger_accounts (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    aliases TEXT NOT NULL,
+    opening_balance REAL NOT NULL,
+    opening_date TEXT NOT NULL,
+    closing_day INTEGER NOT NULL,
+    payment_day INTEGER NOT NULL,
+    payment_account_id TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+];
+
+const toReceipt = (row: Row): ReceiptRecord => ({
+  id: String(row.id),
+  date: String(row.date),
+  storeName: String(row.store_name),
+  category: String(row.category),
+  subtotal: Number(row.subtotal),
+  tax: Number(row.tax),
+  total: Number(row.total),
+  paymentMethod: String(row.payment_method),
+  createdAt: String(row.created_at),
+});
+
+const toReceiptItem = (row: Row): ReceiptItemRecord => ({
+  receiptId: String(row.receipt_id),
+  lineNo: Number(row.line_no),
+  name: String(row.name),
+  category: String(row.category),
+  quantity: Number(row.quantity),
+  price: Number(row.price),
+  total: Number(row.total),
+});
+
+const toBudget = (row: Row): BudgetRecord => ({
+  category: String(row.category),
+  monthlyAmount: Number(row.monthly_amount),
+  updatedAt: String(row.updated_at),
+});
+
+const toIncome = (row: Row): IncomeRecord => ({
+  id: String(row.id),
+  date: String(row.date),
+  source: String(row.source),
+  account: String(row.account),
+  amount: Number(row.amount),
+  memo: String(row.memo),
+  createdAt: String(row.created_at),
+});
+
+const toRecurringExpense = (row: Row): RecurringExpenseRecord => ({
+  id: String(row.id),
+  name: String(row.name),
+  amount: Number(row.amount),
+  category: String(row.category),
+  paymentMethod: String(row.payment_method),
+  frequency: String(row.frequency) as RecurringFrequency,
+  startDate: String(row.start_date),
+  endDate: String(row.end_date),
+  lastRecordedDate: String(row.last_recorded_date),
+  createdAt: String(row.created_at),
+});
+
+// 別名はJSONの配列として保存する
+const toAccount = (row: Row): AccountRecord => ({
+  id: String(row.id),
+  name: String(row.name),
+  type: String(row.type) as AccountType,
+  aliases: JSON.parse(String(row.aliases)) as string[],
+  openingBalance: Number(row.opening_balance),
+  openingDate: String(row.opening_date),
+  closingDay: Number(row.closing_day),
+  paymentDay: Number(row.payment_day),
+  paymentAccountId: String(row.payment_account_id),
+  createdAt: String(row.created_at),
+});
+
+// 日付（YYYY-MM-DD、両端を含む）の絞り込み条件
+const dateConditions = (filter: ReceiptFilter) => {
+  const conditions: string[] = [];
+  const args: string[] = [];
+  if (filter.startDate) {
+    conditions.push('substr(date, 1, 10) >= ?');
+    args.push(filter.startDate);
+  }
+  if (filter.endDate) {
+    conditions.push('substr(date, 1, 10) <= ?');
+    args.push(filter.endDate);
+  }
+  return { where: conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '', args };
+};
+
+const insertItem = (item: ReceiptItemRecord): InStatement => ({
+  sql: 'INSERT INTO ledger_receipt_items (receipt_id, line_no, name, category, quantity, price, total) VALUES (?, ?, ?, ?, ?, ?, ?)',
+  args: [item.receiptId, item.lineNo, item.name, item.category, item.quantity, item.price, item.total],
+});
+
+// libsql（SQLite / Turso）に保存する。レシートと明細は1つのトランザクションで書き込む
+export const createLibsqlLedgerStore = (config: { url: string; authToken?: string }): LedgerStore => {
+  const client = createClient(config);
+
+  return {
+    kind: 'libsql',
+    location: config.url,
+
+    async init() {
+      const existing = await client.execute(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'ledger_receipts'"
+      );
+      await client.batch(CREATE_TABLES, 'write');
+      return existing.rows.length === 0;
+    },
+
+    async listReceipts(filter: ReceiptFilter = {}) {
+      const { where, args } = dateConditions(filter);
+      const result = await client.execute({
+        sql: `SELECT * FROM ledger_receipts${where} ORDER BY date, created_at`,
+        args,
+      });
+      return result.rows.map(toReceipt);
+    },
+
+    async listReceiptItems(receiptIds?: string[]) {
+      if (receiptIds && receiptIds.length === 0) {
+        return [];
+      }
+
+      const result = await client.execute({
+        sql: `SELECT * FROM ledger_receipt_items${receiptIds ? ` WHERE receipt_id IN (${receiptIds.map(() => '?').join(', ')})` : ''} ORDER BY receipt_id, line_no`,
+        args: receiptIds || [],
+      });
+      return result.rows.map(toReceiptItem);
+    },
+
+    async getReceipt(id: string) {
+      const result = await client.execute({ sql: 'SELECT * FROM ledger_receipts WHERE id = ?', args: [id] });
+      return result.rows.length > 0 ? toReceipt(result.rows[0]) : undefined;
+    },
+
+    async addReceipt(receipt: ReceiptRecord, items: ReceiptItemRecord[]) {
+      await client.batch(
+        [
+          {
+            sql: 'INSERT INTO ledger_receipts (id, date, store_name, category, subtotal, tax, total, payment_method, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            args: [
+              receipt.id,
+              receipt.date,
+              receipt.storeName,
+              receipt.category,
+              receipt.subtotal,
+              receipt.tax,
+              receipt.total,
+              receipt.paymentMethod,
+              receipt.createdAt,
+            ],
+          },
+          ...items.map(insertItem),
+        ],
+        'write'
+      );
+    },
+
+    async updateReceipt(receipt: ReceiptRecord, items: ReceiptItemRecord[]) {
+      const transaction = await client.transaction('write');
+      try {
+        const updated = await transaction.execute({
+          sql: 'UPDATE ledger_receipts SET date = ?, store_name = ?, category = ?, subtotal = ?, tax = ?, total = ?, payment_method = ? WHERE id = ?',
+          args: [
+            receipt.date,
+            receipt.storeName,
+            receipt.category,
+            receipt.subtotal,
+            receipt.tax,
+            receipt.total,
+            receipt.paymentMethod,
+            receipt.id,
+          ],
+        });
+        if (updated.rowsAffected === 0) {
+          await transaction.rollback();
+          return false;
+        }
+
+        await transaction.batch([
+          { sql: 'DELETE FROM ledger_receipt_items WHERE receipt_id = ?', args: [receipt.id] },
+          ...items.map(insertItem),
+        ]);
+        await transaction.commit();
+        return true;
+      } finally {
+        transaction.close();
+      }
+    },
+
+    async deleteReceipt(id: string) {
+      const [, deleted] = await client.batch(
+        [
+          { sql: 'DELETE FROM ledger_receipt_items WHERE receipt_id = ?', args: [id] },
+          { sql: 'DELETE FROM ledger_receipts WHERE id = ?', args: [id] },
+        ],
+        'write'
+      );
+      return deleted.rowsAffected > 0;
+    },
+
+    async listBudgets() {
+      const result = await client.execute('SELECT * FROM ledger_budgets ORDER BY category');
+      return result.rows.map(toBudget);
+    },
+
+    async setBudget(budget: BudgetRecord) {
+      await client.execute({
+        sql: `INSERT INTO ledger_budgets (category, monthly_amount, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT (category) DO UPDATE SET monthly_amount = excluded.monthly_amount, updated_at = excluded.updated_at`,
+        args: [budget.category, budget.monthlyAmount, budget.updatedAt],
+      });
+    },
+
+    async deleteBudget(category: string) {
+      const deleted = await client.execute({ sql: 'DELETE FROM ledger_budgets WHERE category = ?', args: [category] });
+      return deleted.rowsAffected > 0;
+    },
+
+    async listIncomes(filter: ReceiptFilter = {}) {
+      const { where, args } = dateConditions(filter);
+      const result = await client.execute({
+        sql: `SELECT * FROM ledger_incomes${where} ORDER BY date, created_at`,
+        args,
+      });
+      return result.rows.map(toIncome);
+    },
+
+    async addIncome(income: IncomeRecord) {
+      await client.execute({
+        sql: 'INSERT INTO ledger_incomes (id, date, source, account, amount, memo, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        args: [income.id, income.date, income.source, income.account, income.amount, income.memo, income.createdAt],
+      });
+    },
+
+    async deleteIncome(id: string) {
+      const deleted = await client.execute({ sql: 'DELETE FROM ledger_incomes WHERE id = ?', args: [id] });
+      return deleted.rowsAffected > 0;
+    },
+
+    async listRecurringExpenses() {
+      const result = await client.execute('SELECT * FROM ledger_recurring_expenses ORDER BY created_at');
+      // 支払日を計算できない行（手で編集した場合など）は読み飛ばす（行は書き換えないので残る）
+      return result.rows.map(toRecurringExpense).filter((expense) => !recurringExpenseIssue(expense));
+    },
+
+    async setRecurringExpense(expense: RecurringExpenseRecord) {
+      await client.execute({
+        sql: `INSERT INTO ledger_recurring_expenses (id, name, amount, category, payment_method, frequency, start_date, end_date, last_recorded_date, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET name = excluded.name, amount = excluded.amount, category = excluded.category,
+            payment_method = excluded.payment_method, frequency = excluded.frequency, start_date = excluded.start_date,
+            end_date = excluded.end_date, last_recorded_date = excluded.last_recorded_date`,
+        args: [
+          expense.id,
+          expense.name,
+          expense.amount,
+          expense.category,
+          expense.paymentMethod,
+          expense.frequency,
+          expense.startDate,
+          expense.endDate,
+          expense.lastRecordedDate,
+          expense.createdAt,
+        ],
+      });
+    },
+
+    async deleteRecurringExpense(id: string) {
+      const deleted = await client.execute({ sql: 'DELETE FROM ledger_recurring_expenses WHERE id = ?', args: [id] });
+      return deleted.rowsAffected > 0;
+    },
+
+    async listAccounts() {
+      const result = await client.execute('SELECT * FROM ledger_accounts ORDER BY created_at');
+      // 種類が不正な行（手で編集した場合など）は読み飛ばす
+      return result.rows.map(toAccount).filter((account) => accountTypeSchema.safeParse(account.type).success);
+    },
+
+    async setAccount(account: AccountRecord) {
+      await client.execute({
+        sql: `INSERT INTO ledger_accounts (id, name, type, aliases, opening_balance, opening_date, closing_day, payment_day, payment_account_id, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET name = excluded.name, type = excluded.type, aliases = excluded.aliases,
+            opening_balance = excluded.opening_balance, opening_date = excluded.opening_date, closing_day = excluded.closing_day,
+            payment_day = excluded.payment_day, payment_account_id = excluded.payment_account_id`,
+        args: [
+          account.id,
+          account.name,
+          account.type,
+          JSON.stringify(account.aliases),
+          account.openingBalance,
+          account.openingDate,
+          account.closingDay,
+          account.paymentDay,
+          account.paymentAccountId,
+          account.createdAt,
+        ],
+      });
+    },
+
+    async deleteAccount(id: string) {
+      const deleted = await client.execute({ sql: 'DELETE FROM ledger_accounts WHERE id = ?', args: [id] });
+      return deleted.rowsAffected > 0;
+    },
+  };
+};
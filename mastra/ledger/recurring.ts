@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { LedgerStore, RecurringExpenseRecord, recurringFrequencySchema } from './types';
+
+export const recurringChargeSchema = z.object({
+  recurringExpenseId: z.string().describe('定期支出ID'),
+  name: z.string().describe('名前'),
+  date: z.string().describe('支払日（YYYY-MM-DD形式）'),
+  amount: z.number().describe('金額'),
+  category: z.string().describe('カテゴリー'),
+  paymentMethod: z.string().describe('支払い方法'),
+  recorded: z.boolean().describe('家計簿に記録済みかどうか'),
+  receiptId: z.string().optional().describe('記録したレシートのID（この処理で記録した場合のみ）'),
+});
+
+export type RecurringCharge = z.infer<typeof recurringChargeSchema>;
+
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const formatDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const isDateString = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+// 保存されている定期支出の、支払日を計算できない値（手で編集したファイルなど）。問題が無ければ undefined
+export const recurringExpenseIssue = (
+  expense: Pick<RecurringExpenseRecord, 'startDate' | 'endDate' | 'lastRecordedDate'> & { frequency: string }
+): string | undefined => {
+  if (!recurringFrequencySchema.safeParse(expense.frequency).success) {
+    return `頻度が不正です: ${expense.frequency}`;
+  }
+  if (!isDateString(expense.startDate)) {
+    return `開始日が不正です: ${expense.startDate || '（空欄）'}`;
+  }
+  if (expense.endDate && !isDateString(expense.endDate)) {
+    return `終了日が不正です: ${expense.endDate}`;
+  }
+  if (expense.lastRecordedDate && !isDateString(expense.lastRecordedDate)) {
+    return `最終記録日が不正です: ${expense.lastRecordedDate}`;
+  }
+  return undefined;
+};
+
+// n回目（0始まり）の支払日。月末より後の日（31日など）は、その月の末日にする
+const nthDueDate = (expense: RecurringExpenseRecord, n: number): string => {
+  const [year, month, day] = expense.startDate.split('-').map(Number);
+
+  switch (expense.frequency) {
+    case 'weekly':
+      return new Date(Date.UTC(year, month - 1, day + 7 * n)).toISOString().slice(0, 10);
+    case 'monthly': {
+      const target = new Date(Date.UTC(year, month - 1 + n, 1));
+      const [targetYear, targetMonth] = [target.getUTCFullYear(), target.getUTCMonth() + 1];
+      return formatDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+    }
+    case 'yearly':
+      return formatDate(year + n, month, Math.min(day, daysInMonth(year + n, month)));
+  }
+};
+
+// from 〜 to（YYYY-MM-DD、両端を含む）の支払日を古い順に返す（終了日より後は含めない）
+export const dueDates = (expense: RecurringExpenseRecord, from: string, to: string): string[] => {
+  const last = expense.endDate && expense.endDate < to ? expense.endDate : to;
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = nthDueDate(expense, n);
+    if (date > last) {
+      return dates;
+    }
+    if (date >= from) {
+      dates.push(date);
+    }
+  }
+};
+
+// after より後の最初の支払日（終了している場合は undefined）
+export const nextDueDate = (expense: RecurringExpenseRecord, after: string): string | undefined => {
+  for (let n = 0; ; n++) {
+    const date = nthDueDate(expense, n);
+    if (expense.endDate && date > expense.endDate) {
+      return undefined;
+    }
+    if (date > after) {
+      return date;
+    }
+  }
+};
+
+// 指定した月の定期支出の支払い予定（記録済みのものも含む）を支払日の順に返す
+export const getMonthlyCharges = async (store: LedgerStore, month: string): Promise<RecurringCharge[]> => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const [from, to] = [`${month}-01`, formatDate(year, monthNumber, daysInMonth(year, monthNumber))];
+
+  const charges = (await store.listRecurringExpenses()).flatMap((expense) =>
+    dueDates(expense, from, to).map((date) => toCharge(expense, date))
+  );
+  return charges.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const toCharge = (expense: RecurringExpenseRecord, date: string, receiptId?: string): RecurringCharge => ({
+  recurringExpenseId: expense.id,
+  name: expense.name,
+  date,
+  amount: expense.amount,
+  category: expense.category,
+  paymentMethod: expense.paymentMethod,
+  recorded: Boolean(receiptId) || (expense.lastRecordedDate !== '' && date <= expense.lastRecordedDate),
+  receiptId,
+});
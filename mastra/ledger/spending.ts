@@ -0,0 +1,39 @@
+import { KakeiboRow } from '../tools/kakeibo-csv';
+
+// 支出額は、実際に支払った額としてレシートの合計金額（税込）で数える
+// 商品・カテゴリー・店舗ごとに集計するときは、商品の行ごとに合計金額を配分した額を使い、集計の仕方で合計が変わらないようにする
+export type SpendingRow = KakeiboRow & {
+  // この商品に配分した支払額（レシートの行の合計はレシートの合計金額と一致する）
+  amount: number;
+};
+
+// レシートの合計金額を商品の小計に比例して配分する（外税・値引きの分）。端数は小計の最も大きい商品に含める
+export const allocateReceiptTotal = (total: number, itemTotals: number[]): number[] => {
+  if (itemTotals.length === 0) {
+    return [];
+  }
+  const subtotal = itemTotals.reduce((sum, itemTotal) => sum + itemTotal, 0);
+  const amounts = itemTotals.map((itemTotal) => (subtotal === 0 ? 0 : Math.round((itemTotal * total) / subtotal)));
+
+  const largest = itemTotals.indexOf(Math.max(...itemTotals));
+  amounts[largest] += total - amounts.reduce((sum, amount) => sum + amount, 0);
+  return amounts;
+};
+
+// 家計簿の行に支払額を付ける（行はレシートごとにまとまっていなくてもよい）
+export const toSpendingRows = (rows: KakeiboRow[]): SpendingRow[] => {
+  const receipts = new Map<string, KakeiboRow[]>();
+  for (const row of rows) {
+    receipts.set(row.receiptId, [...(receipts.get(row.receiptId) || []), row]);
+  }
+
+  const amounts = new Map<KakeiboRow, number>();
+  for (const items of receipts.values()) {
+    const allocated = allocateReceiptTotal(
+      items[0].total,
+      items.map((item) => item.itemTotal)
+    );
+    items.forEach((item, i) => amounts.set(item, allocated[i]));
+  }
+  return rows.map((row) => ({ ...row, amount: amounts.get(row) ?? row.itemTotal }));
+};
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+
+export const receiptRecordSchema = z.object({
+  id: z.string().describe('レシートID'),
+  date: z.string().describe('購入日時'),
+  storeName: z.string().describe('店舗名'),
+  category: z.string().describe('レシート全体のカテゴリー'),
+  subtotal: z.number().describe('小計'),
+  tax: z.number().describe('消費税'),
+  total: z.number().describe('合計金額'),
+  paymentMethod: z.string().describe('支払い方法'),
+  createdAt: z.string().describe('登録日時'),
+});
+
+export const receiptItemRecordSchema = z.object({
+  receiptId: z.string().describe('レシートID'),
+  lineNo: z.number().describe('レシート内の行番号（1始まり）'),
+  name: z.string().describe('商品名'),
+  category: z.string().describe('カテゴリー'),
+  quantity: z.number().describe('数量'),
+  price: z.number().describe('単価'),
+  total: z.number().describe('小計'),
+});
+
+export const budgetRecordSchema = z.object({
+  category: z.string().describe('カテゴリー'),
+  monthlyAmount: z.number().describe('1か月の予算'),
+  updatedAt: z.string().describe('更新日時'),
+});
+
+export const incomeRecordSchema = z.object({
+  id: z.string().describe('収入ID'),
+  date: z.string().describe('受取日（YYYY-MM-DD形式）'),
+  source: z.string().describe('収入源（給与、賞与、返金など）'),
+  account: z.string().describe('入金先（口座名や現金など）'),
+  amount: z.number().describe('金額'),
+  memo: z.string().describe('メモ'),
+  createdAt: z.string().describe('登録日時'),
+});
+
+export const recurringFrequencySchema = z
+  .enum(['weekly', 'monthly', 'yearly'])
+  .describe('頻度（weekly: 毎週開始日と同じ曜日, monthly: 毎月開始日と同じ日, yearly: 毎年開始日と同じ月日）');
+
+export const recurringExpenseRecordSchema = z.object({
+  id: z.string().describe('定期支出ID'),
+  name: z.string().describe('名前（家賃、電気代、動画配信サービスなど）'),
+  amount: z.number().describe('1回あたりの金額'),
+  category: z.string().describe('カテゴリー'),
+  paymentMethod: z.string().describe('支払い方法'),
+  frequency: recurringFrequencySchema,
+  startDate: z.string().describe('初回の支払日（YYYY-MM-DD形式）'),
+  endDate: z.string().describe('最後の支払日（YYYY-MM-DD形式、無期限なら空文字）'),
+  lastRecordedDate: z.string().describe('家計簿に記録した最後の支払日（未記録なら空文字）'),
+  createdAt: z.string().describe('登録日時'),
+});
+
+export const accountTypeSchema = z
+  .enum(['cash', 'credit-card', 'ic-card', 'qr', 'bank'])
+  .describe('種類（cash: 現金, credit-card: クレジットカード, ic-card: Suicaなどの交通系IC・電子マネー, qr: PayPayなどのQRコード決済, bank: 銀行口座）');
+
+export const accountRecordSchema = z.object({
+  id: z.string().describe('口座ID'),
+  name: z.string().describe('名前（財布、楽天カード、Suica、PayPay、○○銀行など）'),
+  type: accountTypeSchema,
+  aliases: z.array(z.string()).describe('レシートや明細での表記ゆれ（「VISA」「ﾗｸﾃﾝｶｰﾄﾞ」など）'),
+  openingBalance: z.number().describe('基準日時点の残高（クレジットカードは使わない）'),
+  openingDate: z.string().describe('残高の基準日（YYYY-MM-DD形式。この日以降の収支で残高を計算する。空文字なら全期間）'),
+  closingDay: z.number().describe('クレジットカードの締め日（1〜31、31は月末。カード以外は0）'),
+  paymentDay: z.number().describe('クレジットカードの翌月の支払日（1〜31、31は月末。カード以外は0）'),
+  paymentAccountId: z.string().describe('クレジットカードの引き落とし口座のID（未設定なら空文字）'),
+  createdAt: z.string().describe('登録日時'),
+});
+
+export const receiptWithItemsSchema = receiptRecordSchema.extend({
+  items: z.array(receiptItemRecordSchema).describe('明細'),
+});
+
+export type ReceiptRecord = z.infer<typeof receiptRecordSchema>;
+export type ReceiptItemRecord = z.infer<typeof receiptItemRecordSchema>;
+
+export type ReceiptWithItems = z.infer<typeof receiptWithItemsSchema>;
+
+export type BudgetRecord = z.infer<typeof budgetRecordSchema>;
+
+export type IncomeRecord = z.infer<typeof incomeRecordSchema>;
+
+export type RecurringFrequency = z.infer<typeof recurringFrequencySchema>;
+export type RecurringExpenseRecord = z.infer<typeof recurringExpenseRecordSchema>;
+
+export type AccountType = z.infer<typeof accountTypeSchema>;
+export type AccountRecord = z.infer<typeof accountRecordSchema>;
+
+export type NewReceipt = Omit<ReceiptRecord, 'id' | 'createdAt'>;
+export type NewReceiptItem = Omit<ReceiptItemRecord, 'receiptId' | 'lineNo'>;
+export type NewIncome = Omit<IncomeRecord, 'id' | 'createdAt'>;
+
+// 購入日・受取日（YYYY-MM-DD、両端を含む）による絞り込み
+export interface ReceiptFilter {
+  startDate?: string;
+  endDate?: string;
+}
+
+// 家計簿の保存先。レシートIDの採番や集計は呼び出し側で行い、保存先は読み書きだけを受け持つ
+export interface LedgerStore {
+  readonly kind: 'csv' | 'libsql';
+  // 保存先の場所（ファイルパスやURL）
+  readonly location: string;
+  // テーブル・ファイルを用意する。新しく作成した場合は true を返す
+  init(): Promise<boolean>;
+  // 購入日時の昇順で返す
+  listReceipts(filter?: ReceiptFilter): Promise<ReceiptRecord[]>;
+  // レシートID・行番号の順で返す（receiptIds 省略時は全件）
+  listReceiptItems(receiptIds?: string[]): Promise<ReceiptItemRecord[]>;
+  // レシートIDで1件取得する
+  getReceipt(id: string): Promise<ReceiptRecord | undefined>;
+  // レシートと明細をまとめて保存する
+  addReceipt(receipt: ReceiptRecord, items: ReceiptItemRecord[]): Promise<void>;
+  // レシートと明細を置き換える（該当するレシートが無ければ false）
+  updateReceipt(receipt: ReceiptRecord, items: ReceiptItemRecord[]): Promise<boolean>;
+  // レシートと明細を削除する（該当するレシートが無ければ false）
+  deleteReceipt(id: string): Promise<boolean>;
+  // カテゴリーの順で返す
+  listBudgets(): Promise<BudgetRecord[]>;
+  // カテゴリーの予算を登録する（登録済みなら置き換える）
+  setBudget(budget: BudgetRecord): Promise<void>;
+  // カテゴリーの予算を削除する（登録されていなければ false）
+  deleteBudget(category: string): Promise<boolean>;
+  // 受取日の昇順で返す
+  listIncomes(filter?: ReceiptFilter): Promise<IncomeRecord[]>;
+  addIncome(income: IncomeRecord): Promise<void>;
+  // 収入を削除する（該当する収入が無ければ false）
+  deleteIncome(id: string): Promise<boolean>;
+  // 登録日時の順で返す
+  listRecurringExpenses(): Promise<RecurringExpenseRecord[]>;
+  // 定期支出を登録する（登録済みのIDなら置き換える）
+  setRecurringExpense(expense: RecurringExpenseRecord): Promise<void>;
+  // 定期支出を削除する（記録済みの支出は残す。該当する定期支出が無ければ false）
+  deleteRecurringExpense(id: string): Promise<boolean>;
+  // 登録日時の順で返す
+  listAccounts(): Promise<AccountRecord[]>;
+  // 口座を登録する（登録済みのIDなら置き換える）
+  setAccount(account: AccountRecord): Promise<void>;
+  // 口座を削除する（記録済みの支払い方法はそのまま残す。該当する口座が無ければ false）
+  deleteAccount(id: string): Promise<boolean>;
+}
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import type { MastraModelConfig, OpenAICompatibleConfig } from '@mastra/core/llm';
+import { KAKEIBO_DATA_DIR } from './tools/kakeibo-csv';
+
+// vision: レシート画像の読み取り, tools: ツールの呼び出し・分類, chat: ユーザーへの返答
+export type ModelRole = 'vision' | 'tools' | 'chat';
+
+// 設定ファイルの1件。文字列は "provider/model"（例: openai/gpt-4o, anthropic/claude-sonnet-4-5）
+// OpenAI互換のローカルサーバーは url を指定する（例: { "id": "lmstudio/qwen2.5-vl", "url": "http://localhost:1234/v1" }）
+export type ModelEntry =
+  | string
+  | (OpenAICompatibleConfig & {
+      // 次のモデルに切り替える前に再試行する回数
+      maxRetries?: number;
+    });
+
+export type ModelConfigFile = Partial<Record<ModelRole, ModelEntry[]>>;
+
+// Agent の model に渡す形式（先頭から順に試し、エラーになったら次のモデルを使う）
+export type ModelFallbacks = Array<{ model: MastraModelConfig; maxRetries?: number }>;
+
+// モデル設定の保存先（無ければ環境変数と既定値だけを使う）
+export const MODEL_CONFIG_PATH = process.env.MODEL_CONFIG_PATH || path.join(KAKEIBO_DATA_DIR, 'models.json');
+
+const DEFAULT_MODELS: Record<ModelRole, ModelEntry[]> = {
+  vision: ['openai/gpt-4o'],
+  tools: ['openai/gpt-4o'],
+  chat: ['openai/gpt-4o'],
+};
+
+// 環境変数（VISION_MODEL / TOOLS_MODEL / CHAT_MODEL）はカンマ区切りで、2つ目以降が予備のモデル
+const ENV_NAMES: Record<ModelRole, string> = {
+  vision: 'VISION_MODEL',
+  tools: 'TOOLS_MODEL',
+  chat: 'CHAT_MODEL',
+};
+
+// エラー時に同じモデルで再試行する回数の既定値
+const DEFAULT_MAX_RETRIES = 1;
+
+const loadModelConfigFile = (): ModelConfigFile => {
+  if (!fs.existsSync(MODEL_CONFIG_PATH)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(MODEL_CONFIG_PATH, 'utf-8')) as ModelConfigFile;
+};
+
+const toFallback = (entry: ModelEntry): ModelFallbacks[number] => {
+  if (typeof entry === 'string') {
+    return { model: entry as MastraModelConfig, maxRetries: DEFAULT_MAX_RETRIES };
+  }
+  const { maxRetries = DEFAULT_MAX_RETRIES, ...model } = entry;
+  return { model, maxRetries };
+};
+
+// 環境変数か設定ファイルで指定したモデル一覧（指定が無ければ undefined）
+const getConfiguredEntries = (role: ModelRole): ModelEntry[] | undefined => {
+  const fromEnv = (process.env[ENV_NAMES[role]] || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (fromEnv.length > 0) {
+    return fromEnv;
+  }
+
+  const fromFile = loadModelConfigFile()[role];
+  return fromFile?.length ? fromFile : undefined;
+};
+
+// 役割ごとのモデル一覧を返す。優先順位は 環境変数 → 設定ファイル → 既定値
+export const getModelEntries = (role: ModelRole): ModelEntry[] => getConfiguredEntries(role) || DEFAULT_MODELS[role];
+
+// その役割にモデルを使えるかどうか（モデルを指定したか、既定値の OpenAI のAPIキーがあれば使える）
+// APIキーもモデルの指定も無いときは、モデルを呼ばずに済む処理はモデル無しで進める
+export const isModelConfigured = (role: ModelRole): boolean =>
+  Boolean(getConfiguredEntries(role) || process.env.OPENAI_API_KEY);
+
+// エージェントの model に指定する（設定の変更はサーバーの再起動後に反映される）
+export const modelFallbacks = (role: ModelRole): ModelFallbacks => getModelEntries(role).map(toFallback);
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { OcrProvider, OcrRequest } from './types';
+
+const FIXTURE_FILE_PATTERN = /\.(jpe?g|png|webp|gif|pdf)$/i;
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// 画像ファイルと同じ名前のJSON（例: images/レシート.jpg → images/レシート.json）を読み取り結果として返す
+const loadFixtures = (dir: string) => {
+  const fixtures = new Map<string, string>();
+  if (!fs.existsSync(dir)) {
+    return fixtures;
+  }
+
+  for (const file of fs.readdirSync(dir)) {
+    const jsonPath = path.join(dir, file.replace(FIXTURE_FILE_PATTERN, '.json'));
+    if (FIXTURE_FILE_PATTERN.test(file) && fs.existsSync(jsonPath)) {
+      fixtures.set(sha256(fs.readFileSync(path.join(dir, file))), jsonPath);
+    }
+  }
+  return fixtures;
+};
+
+// data URLとローカルのファイルは中身で、それ以外のURLはファイル名で照合する（ネットワークには接続しない）
+const findFixture = (fixtures: Map<string, string>, dir: string, imageUrl: string): string | undefined => {
+  if (imageUrl.startsWith('data:')) {
+    return fixtures.get(sha256(Buffer.from(imageUrl.slice(imageUrl.indexOf(',') + 1), 'base64')));
+  }
+
+  if (fs.existsSync(imageUrl)) {
+    return fixtures.get(sha256(fs.readFileSync(imageUrl)));
+  }
+
+  const fileName = decodeURIComponent(path.basename(imageUrl.split('?')[0]));
+  const jsonPath = path.join(dir, fileName.replace(FIXTURE_FILE_PATTERN, '.json'));
+  return FIXTURE_FILE_PATTERN.test(fileName) && fs.existsSync(jsonPath) ? jsonPath : undefined;
+};
+
+// 用意した読み取り結果を返す（APIキー・ネットワーク無しで開発・動作確認するため）
+export const createFixtureOcrProvider = (config: { dir: string }): OcrProvider => {
+  const fixtures = loadFixtures(config.dir);
+  console.log('[DEBUG] Fixture OCR Provider - Fixtures:', fixtures.size, 'Dir:', config.dir);
+
+  return {
+    kind: 'fixture',
+    name: config.dir,
+
+    async recognize({ imageUrl }: OcrRequest) {
+      const jsonPath = findFixture(fixtures, config.dir, imageUrl);
+      if (!jsonPath) {
+        throw new Error(`この画像に対応する読み取り結果のJSONが ${config.dir} にありません`);
+      }
+
+      console.log('[DEBUG] Fixture OCR Provider - Matched:', jsonPath);
+      return JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+    },
+  };
+};
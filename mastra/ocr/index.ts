@@ -0,0 +1,52 @@
+import path from 'path';
+import { createFixtureOcrProvider } from './fixture-ocr-provider';
+import { createModelOcrProvider } from './model-ocr-provider';
+import { createOpenAiOcrProvider } from './openai-ocr-provider';
+import { OcrProvider } from './types';
+
+export * from './types';
+
+// 読み取りに使うサービスは OCR_PROVIDER（model / openai-compatible / fixture、既定は model）で切り替える
+// openai は以前の既定値の名前で、model と同じ（既定のモデルは OpenAI）
+const createOcrProvider = (): OcrProvider => {
+  const kind = process.env.OCR_PROVIDER || 'model';
+
+  switch (kind) {
+    case 'model':
+    case 'openai':
+      return createModelOcrProvider();
+    case 'openai-compatible': {
+      const baseUrl = process.env.OCR_BASE_URL;
+      const model = process.env.OCR_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error('OCR_PROVIDER=openai-compatible には OCR_BASE_URL と OCR_MODEL の指定が必要です');
+      }
+      return createOpenAiOcrProvider({
+        baseUrl,
+        apiKey: process.env.OCR_API_KEY,
+        model,
+        // ローカルのモデルは応答が遅いことがあるため変更できるようにする
+        timeoutMs: Number(process.env.OCR_TIMEOUT_MS) || undefined,
+      });
+    }
+    case 'fixture':
+      return createFixtureOcrProvider({
+        dir: process.env.OCR_FIXTURE_DIR || path.join(process.cwd(), 'images'),
+      });
+    default:
+      throw new Error(
+        `OCR_PROVIDER の値が不正です: ${kind}（model、openai-compatible または fixture を指定してください）`
+      );
+  }
+};
+
+let ocrProvider: OcrProvider | undefined;
+
+// レシートの読み取りに使うサービスを取得する
+export const getOcrProvider = (): OcrProvider => {
+  if (!ocrProvider) {
+    ocrProvider = createOcrProvider();
+    console.log('[DEBUG] OCR Provider - Kind:', ocrProvider.kind, 'Name:', ocrProvider.name);
+  }
+  return ocrProvider;
+};
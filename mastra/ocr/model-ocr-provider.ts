@@ -0,0 +1,74 @@
+import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { getModelEntries, modelFallbacks } from '../models';
+import { buildReceiptPrompt, toReceiptImages } from './receipt-prompt';
+import { OcrProvider, OcrRequest } from './types';
+
+// 読み取れなかった項目を検出できるよう、すべて省略可能にする
+const recognizedReceiptSchema = z.object({
+  storeName: z.string().optional().describe('店舗名'),
+  date: z.string().optional().describe('購入日時（YYYY-MM-DDTHH:mm:ss形式）'),
+  items: z
+    .array(
+      z.object({
+        name: z.string().describe('商品名'),
+        quantity: z.number().describe('数量'),
+        price: z.number().describe('単価'),
+        total: z.number().describe('小計'),
+      })
+    )
+    .optional()
+    .describe('購入商品リスト'),
+  subtotal: z.number().optional().describe('小計'),
+  tax: z.number().optional().describe('消費税'),
+  total: z.number().optional().describe('合計金額'),
+  paymentMethod: z.string().optional().describe('支払い方法'),
+});
+
+// モデル設定の vision で読み取る（AI SDKのどのプロバイダーでも使え、エラー時は予備のモデルに切り替わる）
+export const createModelOcrProvider = (): OcrProvider => {
+  const agent = new Agent({
+    name: 'Receipt Vision',
+    instructions: 'あなたはレシート画像から購入情報を正確に読み取る専門家です。',
+    model: modelFallbacks('vision'),
+  });
+
+  return {
+    kind: 'model',
+    name: getModelEntries('vision')
+      .map((entry) => (typeof entry === 'string' ? entry : 'id' in entry ? entry.id : entry.modelId))
+      .join(', '),
+
+    async recognize({ imageUrl, feedback }: OcrRequest) {
+      const images = await toReceiptImages(imageUrl);
+
+      const result = await agent.generate(
+        [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: buildReceiptPrompt(images.length, feedback) },
+              // 細かい文字を読めるよう、OpenAIのモデルには高解像度（detail: high）で渡す（他のプロバイダーは無視する）
+              // mimeType（AI SDK v4の形式）で渡すと Mastra が providerOptions を落とすため、mediaType を使う
+              ...images.map((image) => ({
+                type: 'image' as const,
+                image,
+                mediaType: 'image/jpeg',
+                providerOptions: { openai: { imageDetail: 'high' } },
+              })),
+            ],
+          },
+        ],
+        {
+          structuredOutput: { schema: recognizedReceiptSchema },
+          modelSettings: { maxOutputTokens: 800 * images.length },
+        }
+      );
+
+      if (!result.object) {
+        throw new Error('読み取り結果を取得できませんでした');
+      }
+      return result.object;
+    },
+  };
+};
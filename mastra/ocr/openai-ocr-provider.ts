@@ -0,0 +1,79 @@
+import { buildReceiptPrompt, toReceiptImages } from './receipt-prompt';
+import { OcrProvider, OcrRequest } from './types';
+
+// OpenAI互換のChat Completions APIで画像を読み取る（response_format などを直接指定したいローカルサーバー向け）
+export const createOpenAiOcrProvider = (config: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs?: number;
+}): OcrProvider => {
+  const timeoutMs = config.timeoutMs ?? 60000;
+
+  return {
+    kind: 'openai-compatible',
+    name: `${config.baseUrl} (${config.model})`,
+
+    async recognize({ imageUrl, feedback }: OcrRequest) {
+      const images = await toReceiptImages(imageUrl);
+
+      const requestBody = {
+        model: config.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: buildReceiptPrompt(images.length, feedback),
+              },
+              ...images.map((url) => ({
+                type: 'image_url',
+                image_url: {
+                  url,
+                  // 前処理で縮小・グレースケール化しているので、細かい文字も読める high にする
+                  detail: 'high',
+                },
+              })),
+            ],
+          },
+        ],
+        // 複数ページの請求書は明細が多くなるため、ページ数に応じて増やす
+        max_tokens: 800 * images.length,
+        response_format: { type: 'json_object' },
+      };
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`OCR API error: ${response.status} ${response.statusText}. ${errorText}`);
+        }
+
+        const data = await response.json();
+        return JSON.parse(data.choices[0].message.content);
+      } catch (fetchError) {
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+          throw new Error(
+            `OCR APIリクエストがタイムアウトしました（${timeoutMs / 1000}秒）。画像のページ数が多すぎる可能性があります。`
+          );
+        }
+        throw fetchError;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import { isPdfUrl, renderPdfPages } from '../tools/pdf-pages';
+import { preprocessReceiptImage } from '../tools/receipt-image';
+
+// OCRに送る画像のURLに変換（PDFはページごとの画像に描画し、どちらも前処理して小さくする）
+export async function toReceiptImages(imageUrl: string): Promise<string[]> {
+  try {
+    const pages = isPdfUrl(imageUrl) ? await renderPdfPages(imageUrl) : [imageUrl];
+    return await Promise.all(pages.map(preprocessReceiptImage));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`画像の処理に失敗しました: ${error.message}`);
+    }
+    throw new Error(`画像の処理に失敗しました。`);
+  }
+}
+
+// OCRの指示文。feedbackには前回の読み取り結果の矛盾点を渡す
+export const buildReceiptPrompt = (pageCount: number, feedback: string[]) => `
+このレシート画像から以下の情報を抽出してJSON形式で返してください。
+簡潔に、必要最小限の情報のみを返してください。
+
+必須項目:
+- storeName: 店舗名
+- date: 購入日時 (YYYY-MM-DDTHH:mm:ss形式、時刻不明なら12:00:00)
+- items: [{name: 商品名, quantity: 数量, price: 単価, total: 小計}]
+- subtotal: 小計
+- tax: 消費税
+- total: 合計金額
+
+任意項目:
+- paymentMethod: 支払い方法（判読できる場合のみ）
+
+レスポンス例:
+{"storeName":"コンビニ","date":"2025-10-28T12:00:00","items":[{"name":"商品A","quantity":1,"price":100,"total":100}],"subtotal":100,"tax":10,"total":110}
+
+不明な項目は省略または0にしてください。
+${pageCount > 1 ? `
+${pageCount}枚の画像は1通のレシート（請求書）の各ページです。全ページの明細を1つのitemsにまとめ、小計・消費税・合計金額は請求書全体の値を返してください。
+` : ''}${feedback.length > 0 ? `
+前回の読み取り結果には以下の矛盾がありました。画像をよく確認して、正しい値を読み取り直してください。
+${feedback.map((issue) => `- ${issue}`).join('\n')}
+` : ''}`;
@@ -0,0 +1,15 @@
+// OCRに渡す入力
+export interface OcrRequest {
+  // レシート画像またはPDFのURL（data URLを含む）
+  imageUrl: string;
+  // 前回の読み取り結果の矛盾点（読み直すときに渡す）
+  feedback: string[];
+}
+
+// レシートを読み取るサービス。結果はモデルが返したJSONのままで、項目が欠けていることがある
+export interface OcrProvider {
+  kind: 'model' | 'openai-compatible' | 'fixture';
+  // ログ用の接続先やモデル名
+  name: string;
+  recognize(request: OcrRequest): Promise<Record<string, unknown>>;
+}
@@ -0,0 +1,32 @@
+import iconv from 'iconv-lite';
+import { describe, expect, it, vi } from 'vitest';
+import { parseStatement } from './index';
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+// Vpass のCSVと同じく、1行目がカード情報で最終行が合計の、見出しの無い明細
+const SMBC_STATEMENT = [
+  '山田　太郎　様,4980-****-****-****,三井住友カード',
+  '2026/09/03,コンビニ,1080,１,１,1080,',
+  '2026/09/15,ドラッグストア,2350,１,１,2350,',
+  ',,,,,3430,',
+].join('\r\n');
+
+describe('parseStatement', () => {
+  it('見出しの無い三井住友カードの明細を、明細の行の列数と日付から判定する', () => {
+    const { profile, encoding, transactions } = parseStatement(iconv.encode(SMBC_STATEMENT, 'Shift_JIS'));
+
+    expect(profile.id).toBe('smbc-card');
+    expect(encoding).toBe('shift_jis');
+    expect(transactions.map(({ date, description, amount }) => [date, description, amount])).toEqual([
+      ['2026-09-03', 'コンビニ', 1080],
+      ['2026-09-15', 'ドラッグストア', 2350],
+    ]);
+  });
+
+  it('見出しのある明細は、明細の行の形が同じでも見出しから判定する', () => {
+    const { profile } = parseStatement(Buffer.from('日付,内容,金額\n2026/09/03,コンビニ,1080\n'));
+
+    expect(profile.id).toBe('generic');
+  });
+});
@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { LedgerStore, ReceiptRecord, normalizePaymentMethod, recordReceipt } from '../ledger';
+import { FALLBACK_CATEGORY, findCategoryByRules, loadCategoryConfig } from '../tools/category-rules';
+import { parseCSV } from '../tools/kakeibo-csv';
+import { StatementColumn, StatementProfile, loadStatementProfiles } from './profiles';
+
+export * from './profiles';
+
+// 記録済みのレシートと照合するときに許容する日付のずれ（日）。STATEMENT_MATCH_DAYS で変更できる
+// カードの利用日はレシートと同じ日のことが多いが、口座の引き落としは翌日になることがある
+const DEFAULT_MATCH_DAYS = 1;
+
+// 見出し行を探す範囲（先頭にカード番号や期間の行がある形式に対応する）
+const HEADER_SEARCH_ROWS = 20;
+
+export const statementEntrySchema = z.object({
+  line: z.number().describe('CSVの行番号（1始まり）'),
+  date: z.string().describe('利用日（YYYY-MM-DD形式）'),
+  description: z.string().describe('利用先・摘要'),
+  amount: z.number().describe('金額'),
+  status: z
+    .enum(['imported', 'reconciled', 'skipped'])
+    .describe('imported: 新しく記録した, reconciled: 記録済みのレシートと照合した, skipped: 取り込まなかった'),
+  receiptId: z.string().optional().describe('記録した・照合したレシートのID'),
+  note: z.string().optional().describe('照合したレシートやスキップした理由'),
+});
+
+export type StatementEntry = z.infer<typeof statementEntrySchema>;
+
+export const statementImportResultSchema = z.object({
+  profile: z.object({ id: z.string(), name: z.string() }).describe('使った明細の形式'),
+  encoding: z.string().describe('読み込んだ文字コード'),
+  imported: z.number().describe('新しく記録した件数'),
+  reconciled: z.number().describe('記録済みのレシートと照合した件数'),
+  skipped: z.number().describe('取り込まなかった件数'),
+  entries: z.array(statementEntrySchema).describe('明細の各行の結果'),
+  message: z.string().describe('取り込み結果のメッセージ'),
+});
+
+export type StatementImportResult = z.infer<typeof statementImportResultSchema>;
+
+type StatementTransaction = Omit<StatementEntry, 'status' | 'receiptId' | 'note'> & { paymentMethod: string };
+
+const normalizeHeader = (value: string) => value.normalize('NFKC').replace(/\s/g, '');
+
+// 文字コードを指定しなければ、UTF-8 として読めない場合に Shift_JIS とみなす（BOMは取り除く）
+export const decodeStatement = (
+  bytes: Uint8Array,
+  encoding: StatementProfile['encoding'] = 'auto'
+): { text: string; encoding: 'utf-8' | 'shift_jis' } => {
+  if (encoding === 'shift_jis') {
+    return { text: new TextDecoder('shift_jis').decode(bytes), encoding };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: encoding === 'auto' }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('shift_jis').decode(bytes), encoding: 'shift_jis' };
+  }
+};
+
+// 「2024/1/5」「2024-01-05」「2024年1月5日」「20240105」を YYYY-MM-DD にする（日付でなければ undefined）
+export const parseStatementDate = (value: string): string | undefined => {
+  const match = value.normalize('NFKC').trim().match(/^(\d{4})(?:[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?|(\d{2})(\d{2}))(?:\s|$)/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month = match[4], day = match[5]] = match;
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+    return undefined;
+  }
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// 「1,234」「¥1,234」「1234円」「△500」（マイナス）を数値にする（空欄や数値でなければ undefined）
+export const parseStatementAmount = (value: string): number | undefined => {
+  const text = value.normalize('NFKC').replace(/[,¥\\円\s]/g, '');
+  if (!text) {
+    return undefined;
+  }
+  const amount = Number(text.replace(/^[△▲]/, '-'));
+  return Number.isFinite(amount) ? amount : undefined;
+};
+
+// 列の指定を列番号にする（見出しに無ければ -1）
+const columnIndex = (header: string[] | undefined, column: StatementColumn | undefined): number => {
+  if (column === undefined) {
+    return -1;
+  }
+  if (typeof column === 'number') {
+    return column;
+  }
+  if (!header) {
+    return -1;
+  }
+  const candidates = (Array.isArray(column) ? column : [column]).map(normalizeHeader);
+  return header.findIndex((name) => candidates.includes(normalizeHeader(name)));
+};
+
+// 見出しの無い形式は、利用日の列が日付として読める行（明細の行）の列数と金額で判定する
+// 明細の行がすべて同じ列数で、形式の列がそろっていて、金額の列が数値なら一致とみなす
+const matchesHeaderlessRows = (rows: string[][], profile: StatementProfile): boolean => {
+  const { date, description, amount } = profile.columns;
+  if (typeof date !== 'number' || typeof description !== 'number' || typeof amount !== 'number') {
+    return false;
+  }
+  const dataRows = rows.filter((row) => parseStatementDate(row[date] || '') !== undefined);
+  return (
+    dataRows.length > 0 &&
+    dataRows.every((row) => row.length === dataRows[0].length) &&
+    dataRows[0].length > Math.max(date, description, amount) &&
+    dataRows.every((row) => parseStatementAmount(row[amount]) !== undefined)
+  );
+};
+
+// 形式の必須の列（日付・利用先・金額）がすべてある見出し行の位置（見出しの無い形式は -1、見つからなければ undefined）
+// detect が true なら、見出しの無い形式も明細の行が形式に合うかを確かめる
+const findHeaderRow = (rows: string[][], profile: StatementProfile, detect: boolean): number | undefined => {
+  if (profile.header === false) {
+    return !detect || matchesHeaderlessRows(rows, profile) ? -1 : undefined;
+  }
+  const index = rows
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) =>
+      [profile.columns.date, profile.columns.description, profile.columns.amount].every(
+        (column) => columnIndex(row, column) >= 0
+      )
+    );
+  return index >= 0 ? index : undefined;
+};
+
+// 明細を読み取る。profileId を指定しなければ、見出し行から形式を判定する（見出しの無い形式は明細の行の列数と日付で判定する）
+export const parseStatement = (
+  bytes: Uint8Array,
+  profileId?: string
+): { profile: StatementProfile; encoding: string; transactions: StatementTransaction[]; skipped: StatementEntry[] } => {
+  const profiles = loadStatementProfiles();
+  const requested = profileId ? profiles.find((profile) => profile.id === profileId) : undefined;
+  if (profileId && !requested) {
+    throw new Error(
+      `明細の形式「${profileId}」はありません。次のいずれかを指定してください: ${profiles.map((profile) => profile.id).join('、')}`
+    );
+  }
+
+  const { text, encoding } = decodeStatement(bytes, requested?.encoding);
+  const rows = parseCSV(text);
+
+  // 見出しの行も明細の行の形に合うことがあるので、見出しの無い形式は見出しのある形式がどれも合わなかったときに試す
+  const candidates = requested
+    ? [requested]
+    : [...profiles.filter((profile) => profile.header !== false), ...profiles.filter((profile) => profile.header === false)];
+  const detected = candidates
+    .map((profile) => ({ profile, headerRow: findHeaderRow(rows, profile, !requested) }))
+    .find((candidate) => candidate.headerRow !== undefined);
+  if (!detected || detected.headerRow === undefined) {
+    throw new Error(
+      requested
+        ? `明細の見出し行が「${requested.name}」の形式と一致しません`
+        : '明細の形式を判定できませんでした。形式（profile）を指定するか、statement-profiles.json に形式を追加してください'
+    );
+  }
+
+  const { profile, headerRow } = detected;
+  const header = headerRow >= 0 ? rows[headerRow] : undefined;
+  const index = {
+    date: columnIndex(header, profile.columns.date),
+    description: columnIndex(header, profile.columns.description),
+    amount: columnIndex(header, profile.columns.amount),
+    deposit: columnIndex(header, profile.columns.deposit),
+    paymentMethod: columnIndex(header, profile.columns.paymentMethod),
+  };
+  console.log('[DEBUG] Statement - Profile:', profile.id, 'Encoding:', encoding, 'Header row:', headerRow);
+
+  const transactions: StatementTransaction[] = [];
+  const skipped: StatementEntry[] = [];
+  rows.forEach((row, rowIndex) => {
+    // 見出しより前の行と、日付の無い行（合計行・カード情報など）は明細ではない
+    const date = rowIndex > headerRow ? parseStatementDate(row[index.date] || '') : undefined;
+    if (!date) {
+      return;
+    }
+
+    const entry = {
+      line: rowIndex + 1,
+      date,
+      description: (row[index.description] || '').normalize('NFKC').trim(),
+      amount: parseStatementAmount(row[index.amount] || '') ?? 0,
+    };
+
+    if (entry.amount <= 0) {
+      const deposit = index.deposit >= 0 ? parseStatementAmount(row[index.deposit] || '') : undefined;
+      skipped.push({
+        ...entry,
+        amount: entry.amount || deposit || 0,
+        status: 'skipped',
+        note: deposit ? '入金のため取り込みませんでした' : entry.amount < 0 ? '返金・取り消しのため取り込みませんでした' : '金額がありません',
+      });
+      return;
+    }
+
+    transactions.push({
+      ...entry,
+      paymentMethod: (index.paymentMethod >= 0 && row[index.paymentMethod]?.trim()) || profile.paymentMethod,
+    });
+  });
+
+  return { profile, encoding, transactions, skipped };
+};
+
+const dayDistance = (a: string, b: string) =>
+  Math.abs(new Date(a.slice(0, 10)).getTime() - new Date(b.slice(0, 10)).getTime()) / (24 * 60 * 60 * 1000);
+
+const shiftDate = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// 明細を家計簿に取り込む。金額が同じで日付が近い記録済みのレシートがあれば、新しく記録せずに照合する
+export const importStatement = async (
+  store: LedgerStore,
+  bytes: Uint8Array,
+  options: { profileId?: string } = {}
+): Promise<StatementImportResult> => {
+  const { profile, encoding, transactions, skipped } = parseStatement(bytes, options.profileId);
+  const matchDays = Number(process.env.STATEMENT_MATCH_DAYS ?? DEFAULT_MATCH_DAYS);
+
+  const dates = transactions.map((transaction) => transaction.date).sort();
+  const receipts = dates.length > 0
+    ? await store.listReceipts({
+        startDate: shiftDate(dates[0], -matchDays),
+        endDate: shiftDate(dates[dates.length - 1], matchDays),
+      })
+    : [];
+  // 1枚のレシートは1つの明細とだけ照合する
+  const matched = new Set<string>();
+  const { rules } = loadCategoryConfig();
+
+  const entries: StatementEntry[] = [];
+  for (const transaction of transactions) {
+    const { paymentMethod, ...entry } = transaction;
+    const match = receipts
+      .filter(
+        (receipt) =>
+          !matched.has(receipt.id) &&
+          receipt.total === transaction.amount &&
+          dayDistance(receipt.date, transaction.date) <= matchDays
+      )
+      .sort((a, b) => dayDistance(a.date, transaction.date) - dayDistance(b.date, transaction.date))[0];
+
+    if (match) {
+      matched.add(match.id);
+      await fillPaymentMethod(store, match, paymentMethod);
+      entries.push({
+        ...entry,
+        status: 'reconciled',
+        receiptId: match.id,
+        note: `${match.date.slice(0, 10)} ${match.storeName} ${match.total.toLocaleString('ja-JP')}円と照合しました`,
+      });
+      continue;
+    }
+
+    const category = findCategoryByRules(rules, transaction.description, transaction.description) || FALLBACK_CATEGORY;
+    const { receipt } = await recordReceipt(
+      store,
+      {
+        date: transaction.date,
+        storeName: transaction.description,
+        category,
+        subtotal: transaction.amount,
+        tax: 0,
+        total: transaction.amount,
+        paymentMethod,
+      },
+      [{ name: transaction.description, category, quantity: 1, price: transaction.amount, total: transaction.amount }]
+    );
+    entries.push({ ...entry, status: 'imported', receiptId: receipt.id });
+  }
+
+  const allEntries = [...entries, ...skipped].sort((a, b) => a.line - b.line);
+  const count = (status: StatementEntry['status']) => allEntries.filter((entry) => entry.status === status).length;
+  console.log('[DEBUG] Statement - Imported:', count('imported'), 'Reconciled:', count('reconciled'), 'Skipped:', count('skipped'));
+
+  return {
+    profile: { id: profile.id, name: profile.name },
+    encoding,
+    imported: count('imported'),
+    reconciled: count('reconciled'),
+    skipped: count('skipped'),
+    entries: allEntries,
+    message: `${profile.name}の明細を取り込みました（新規 ${count('imported')}件、記録済みのレシートと照合 ${count('reconciled')}件、スキップ ${count('skipped')}件）`,
+  };
+};
+
+// 照合したレシートの支払い方法が読み取れていなければ、明細の支払い方法にする
+const fillPaymentMethod = async (store: LedgerStore, receipt: ReceiptRecord, paymentMethod: string) => {
+  if (receipt.paymentMethod && receipt.paymentMethod !== '不明') {
+    return;
+  }
+  await store.updateReceipt(
+    { ...receipt, paymentMethod: await normalizePaymentMethod(store, paymentMethod) },
+    await store.listReceiptItems([receipt.id])
+  );
+};
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { KAKEIBO_DATA_DIR } from '../tools/kakeibo-csv';
+
+// 列の指定。見出しの名前（候補が複数あれば配列）か、0始まりの列番号
+export type StatementColumn = string | string[] | number;
+
+// 明細CSVの形式ごとの読み方
+export interface StatementProfile {
+  id: string;
+  name: string;
+  // 文字コード（auto は UTF-8 として読めなければ Shift_JIS とみなす）
+  encoding?: 'auto' | 'utf-8' | 'shift_jis';
+  // 見出し行が無い形式は false にして、列を列番号で指定する（自動判定では、明細の行の列数と日付の形で判定する）
+  header?: boolean;
+  columns: {
+    date: StatementColumn;
+    description: StatementColumn;
+    // 支払った金額（引き落とし・カードの利用額）
+    amount: StatementColumn;
+    // 入金額（銀行の明細。支出ではないので取り込まない）
+    deposit?: StatementColumn;
+    paymentMethod?: StatementColumn;
+  };
+  // 記録する支払い方法（paymentMethod 列が無いか空の場合）
+  paymentMethod: string;
+}
+
+// 形式の設定の保存先（組み込みの形式に追加・同じIDなら上書きする）
+export const STATEMENT_PROFILES_PATH =
+  process.env.STATEMENT_PROFILES_PATH || path.join(KAKEIBO_DATA_DIR, 'statement-profiles.json');
+
+// 自動判定はこの順に試す（見出しの少ない generic は最後）
+export const BUILTIN_STATEMENT_PROFILES: StatementProfile[] = [
+  {
+    id: 'rakuten-card',
+    name: '楽天カード',
+    columns: {
+      date: '利用日',
+      description: '利用店名・商品名',
+      amount: '利用金額',
+    },
+    paymentMethod: '楽天カード',
+  },
+  {
+    id: 'jcb-card',
+    name: 'JCBカード',
+    columns: {
+      date: 'ご利用日',
+      description: 'ご利用先など',
+      amount: ['ご利用金額(¥)', 'ご利用金額(円)', 'ご利用金額'],
+    },
+    paymentMethod: 'JCBカード',
+  },
+  {
+    // Vpass のCSVは見出しが無く、1行目がカード情報、最終行が合計
+    id: 'smbc-card',
+    name: '三井住友カード',
+    encoding: 'shift_jis',
+    header: false,
+    columns: { date: 0, description: 1, amount: 2 },
+    paymentMethod: '三井住友カード',
+  },
+  {
+    id: 'bank',
+    name: '銀行口座',
+    columns: {
+      date: ['取引日', '日付', '年月日'],
+      description: ['摘要', 'お取引内容', '取引内容', '内容'],
+      amount: ['お引出し', 'お支払金額', '出金金額', '出金額', '引出額'],
+      deposit: ['お預入れ', 'お預り金額', '入金金額', '入金額', '預入額'],
+    },
+    paymentMethod: '口座引き落とし',
+  },
+  {
+    id: 'generic',
+    name: '汎用',
+    columns: {
+      date: ['日付', '利用日', 'ご利用日', '取引日'],
+      description: ['内容', '店舗名', '利用店名', 'ご利用先', '摘要', '明細'],
+      amount: ['金額', '利用金額', 'ご利用金額', '支払金額'],
+      paymentMethod: ['支払い方法', '支払方法'],
+    },
+    paymentMethod: '不明',
+  },
+];
+
+// 組み込みの形式と設定ファイルの形式を合わせて返す（設定ファイルの形式を先に試す）
+export const loadStatementProfiles = (): StatementProfile[] => {
+  if (!fs.existsSync(STATEMENT_PROFILES_PATH)) {
+    return BUILTIN_STATEMENT_PROFILES;
+  }
+
+  const custom = JSON.parse(fs.readFileSync(STATEMENT_PROFILES_PATH, 'utf-8')) as StatementProfile[];
+  const customIds = new Set(custom.map((profile) => profile.id));
+  return [...custom, ...BUILTIN_STATEMENT_PROFILES.filter((profile) => !customIds.has(profile.id))];
+};
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, vi } from 'vitest';
+
+// テストで data/ を書き換えないよう、家計簿の保存先を一時ディレクトリにする
+// 家計簿のモジュールより先に読み込まれるよう、テストファイルの最初に import する
+export const TEMP_LEDGER_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'kakeibo-test-'));
+
+vi.mock('../tools/kakeibo-csv', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../tools/kakeibo-csv')>()),
+  KAKEIBO_DATA_DIR: TEMP_LEDGER_DIR,
+  KAKEIBO_CSV_PATH: path.join(TEMP_LEDGER_DIR, 'kakeibo.csv'),
+}));
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+afterAll(() => {
+  fs.rmSync(TEMP_LEDGER_DIR, { recursive: true, force: true });
+});
@@ -0,0 +1,23 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { accountBalanceSchema, accountRecordSchema, getAccountBalances, getLedgerStore, localToday } from '../ledger';
+
+export const accountBalancesTool = createTool({
+  id: 'account-balances',
+  description: '登録済みの口座（財布・カード・交通系IC・QRコード決済・銀行口座）の一覧と、それぞれの残高を返す',
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    date: z.string().describe('残高の日付（今日、YYYY-MM-DD形式）'),
+    accounts: z.array(accountRecordSchema).describe('登録済みの口座（登録日時の順）'),
+    balances: z.array(accountBalanceSchema).describe('口座ごとの残高'),
+    total: z.number().describe('残高の合計（クレジットカードの未払い分を差し引いた純資産）'),
+  }),
+  execute: async () => {
+    const store = await getLedgerStore();
+    const today = localToday();
+    const [accounts, balances] = await Promise.all([store.listAccounts(), getAccountBalances(store, today)]);
+    console.log('[DEBUG] Account Balances Tool - Accounts:', accounts.length);
+
+    return { date: today, accounts, balances, total: balances.reduce((sum, balance) => sum + balance.balance, 0) };
+  },
+});
@@ -0,0 +1,47 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { accountRecordSchema, getLedgerStore } from '../ledger';
+import { confirmationOutputSchema, requestConfirmation } from './mutation-confirmation';
+
+export const accountDeleteTool = createTool({
+  id: 'account-delete',
+  description:
+    '口座の登録を削除する（記録済みのレシートの支払い方法は残る）。削除する口座の内容を返し、ユーザーがチャットの確認カードで実行したときにだけ削除される',
+  inputSchema: z.object({
+    id: z.string().describe('削除する口座のID'),
+  }),
+  outputSchema: confirmationOutputSchema.extend({
+    success: z.boolean().describe('削除の確認を用意できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    account: accountRecordSchema.optional().describe('削除する口座'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const accounts = await store.listAccounts();
+    const account = accounts.find((other) => other.id === context.id);
+    if (!account) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `口座ID「${context.id}」の口座が見つかりません`,
+      };
+    }
+
+    const cards = accounts.filter((other) => other.paymentAccountId === account.id).map((other) => other.name);
+    const confirmationId = requestConfirmation('delete-account', { id: account.id }, account);
+    console.log('[DEBUG] Account Delete Tool - Requested confirmation:', context.id);
+
+    return {
+      success: true,
+      requiresConfirmation: true,
+      message: '削除する口座を確認カードに表示しました。ユーザーがカードの「実行」を押すと削除されます',
+      confirmationId,
+      preview: [
+        `口座「${account.name}」の登録を削除します`,
+        ...(cards.length > 0 ? [`${cards.join('、')}の引き落とし口座の設定も外れます`] : []),
+        '記録済みのレシートの支払い方法は残ります',
+      ],
+      account,
+    };
+  },
+});
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { accountRecordSchema, accountTypeSchema, billingCycle, findAccount, getLedgerStore, localToday } from '../ledger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDayOfMonth = (day: number | undefined) => day !== undefined && Number.isInteger(day) && day >= 1 && day <= 31;
+
+export const accountSetTool = createTool({
+  id: 'account-set',
+  description:
+    '財布（現金）・クレジットカード・Suicaなどの交通系IC・PayPayなどのQRコード決済・銀行口座を登録・変更する。記録するレシートの支払い方法は登録した口座の名前にそろえられる',
+  inputSchema: z.object({
+    id: z.string().optional().describe('変更する口座のID（新しく登録する場合は省略。同じ名前の口座があればその口座を変更する）'),
+    name: z.string().describe('名前（財布、楽天カード、Suica、PayPay、○○銀行など）'),
+    type: accountTypeSchema,
+    aliases: z
+      .array(z.string())
+      .optional()
+      .describe('レシートや明細での表記ゆれ（「VISA」「ﾗｸﾃﾝｶｰﾄﾞ」など。変更時に省略すると登録済みの別名を残す）'),
+    openingBalance: z.number().optional().describe('基準日時点の残高（円、クレジットカード以外。省略時は0）'),
+    openingDate: z
+      .string()
+      .optional()
+      .describe('残高の基準日（YYYY-MM-DD形式）。この日以降の収支で残高を計算する（省略時は今日）'),
+    closingDay: z.number().optional().describe('クレジットカードの締め日（1〜31、月末締めは31）'),
+    paymentDay: z.number().optional().describe('クレジットカードの翌月の支払日（1〜31、月末払いは31）'),
+    paymentAccount: z.string().optional().describe('クレジットカードの引き落とし口座の名前（登録済みの銀行口座）'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean().describe('登録・変更できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    account: accountRecordSchema.optional().describe('登録した口座'),
+  }),
+  execute: async ({ context }) => {
+    const isCard = context.type === 'credit-card';
+    if (isCard && !(isDayOfMonth(context.closingDay) && isDayOfMonth(context.paymentDay))) {
+      return { success: false, message: 'クレジットカードは締め日と支払日を1〜31で指定してください' };
+    }
+    if (context.openingDate && !DATE_PATTERN.test(context.openingDate)) {
+      return { success: false, message: '基準日は YYYY-MM-DD 形式で指定してください' };
+    }
+
+    const store = await getLedgerStore();
+    const accounts = await store.listAccounts();
+    const existing = context.id
+      ? accounts.find((account) => account.id === context.id)
+      : accounts.find((account) => account.name.normalize('NFKC') === context.name.normalize('NFKC'));
+    if (context.id && !existing) {
+      return { success: false, message: `口座ID「${context.id}」の口座が見つかりません` };
+    }
+
+    const paymentAccount = isCard && context.paymentAccount ? findAccount(accounts, context.paymentAccount) : undefined;
+    if (context.paymentAccount && isCard && paymentAccount?.type !== 'bank') {
+      return {
+        success: false,
+        message: `引き落とし口座「${context.paymentAccount}」が見つかりません。先に銀行口座として登録してください`,
+      };
+    }
+
+    const account = {
+      id: existing?.id || `account-${crypto.randomBytes(3).toString('hex')}`,
+      name: context.name,
+      type: context.type,
+      aliases: (context.aliases || existing?.aliases || []).map((alias) => alias.trim()).filter(Boolean),
+      openingBalance: isCard ? 0 : (context.openingBalance ?? existing?.openingBalance ?? 0),
+      openingDate: isCard ? '' : context.openingDate || existing?.openingDate || localToday(),
+      closingDay: isCard ? context.closingDay! : 0,
+      paymentDay: isCard ? context.paymentDay! : 0,
+      paymentAccountId: isCard ? paymentAccount?.id || existing?.paymentAccountId || '' : '',
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    };
+    await store.setAccount(account);
+    console.log('[DEBUG] Account Set Tool - Account:', account.id, account.name, account.type);
+
+    const cycle = isCard ? billingCycle(account, localToday()) : undefined;
+    return {
+      success: true,
+      message: [
+        `口座「${account.name}」を${existing ? '変更' : '登録'}しました`,
+        cycle && `今の利用分は${cycle.closingDate}に締められ、${cycle.paymentDate}に支払われます`,
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      account,
+    };
+  },
+});
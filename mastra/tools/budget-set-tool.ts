@@ -0,0 +1,60 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { budgetRecordSchema, budgetStatusSchema, getBudgetStatuses, getLedgerStore } from '../ledger';
+import { loadCategoryConfig } from './category-rules';
+
+export const budgetSetTool = createTool({
+  id: 'budget-set',
+  description: 'カテゴリーごとの月の予算を登録・変更する。金額に0を指定すると予算を削除する',
+  inputSchema: z.object({
+    category: z.string().describe('カテゴリー（カテゴリー一覧にあるもの）'),
+    monthlyAmount: z.number().describe('1か月の予算（円）。0で予算を削除する'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean().describe('登録・削除できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    budget: budgetRecordSchema.optional().describe('登録した予算'),
+    status: budgetStatusSchema.optional().describe('今月の予算の残り'),
+  }),
+  execute: async ({ context }) => {
+    const { categories } = loadCategoryConfig();
+    if (!categories.includes(context.category)) {
+      return {
+        success: false,
+        message: `カテゴリー「${context.category}」はありません。次のいずれかを指定してください: ${categories.join('、')}`,
+      };
+    }
+    if (context.monthlyAmount < 0) {
+      return { success: false, message: '予算には0以上の金額を指定してください' };
+    }
+
+    const store = await getLedgerStore();
+
+    if (context.monthlyAmount === 0) {
+      const deleted = await store.deleteBudget(context.category);
+      return {
+        success: deleted,
+        message: deleted
+          ? `${context.category}の予算を削除しました`
+          : `${context.category}の予算は登録されていません`,
+      };
+    }
+
+    const budget = {
+      category: context.category,
+      monthlyAmount: context.monthlyAmount,
+      updatedAt: new Date().toISOString(),
+    };
+    await store.setBudget(budget);
+    console.log('[DEBUG] Budget Set Tool - Budget:', budget.category, budget.monthlyAmount);
+
+    const [status] = await getBudgetStatuses(store, budget.updatedAt.slice(0, 7), [budget.category]);
+
+    return {
+      success: true,
+      message: `${budget.category}の予算を月${budget.monthlyAmount.toLocaleString('ja-JP')}円にしました`,
+      budget,
+      status,
+    };
+  },
+});
@@ -0,0 +1,34 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { budgetStatusSchema, getBudgetStatuses, getLedgerStore, localMonth } from '../ledger';
+
+export const budgetStatusTool = createTool({
+  id: 'budget-status',
+  description: 'カテゴリーごとの月の予算・支出・残りを返す（予算を登録したカテゴリーのみ）',
+  inputSchema: z.object({
+    month: z.string().optional().describe('対象月（YYYY-MM形式、省略時は今月）'),
+    category: z.string().optional().describe('カテゴリー（省略時は予算を登録した全カテゴリー）'),
+  }),
+  outputSchema: z.object({
+    month: z.string().describe('対象月（YYYY-MM形式）'),
+    budgets: z.array(budgetStatusSchema).describe('カテゴリーごとの予算の状況'),
+    totalBudget: z.number().describe('予算の合計'),
+    totalSpent: z.number().describe('予算を登録したカテゴリーの支出の合計'),
+  }),
+  execute: async ({ context }) => {
+    const month = context.month || localMonth();
+    const budgets = await getBudgetStatuses(
+      await getLedgerStore(),
+      month,
+      context.category ? [context.category] : undefined
+    );
+    console.log('[DEBUG] Budget Status Tool - Month:', month, 'Budgets:', budgets.length);
+
+    return {
+      month,
+      budgets,
+      totalBudget: budgets.reduce((sum, budget) => sum + budget.budget, 0),
+      totalSpent: budgets.reduce((sum, budget) => sum + budget.spent, 0),
+    };
+  },
+});
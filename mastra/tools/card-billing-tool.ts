@@ -0,0 +1,58 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { cardStatementSchema, findAccount, getCardStatements, getLedgerStore, localToday } from '../ledger';
+
+export const cardBillingTool = createTool({
+  id: 'card-billing',
+  description: 'クレジットカードの請求期間ごとの利用額と、次の支払日に引き落とされる金額を返す',
+  inputSchema: z.object({
+    card: z.string().optional().describe('クレジットカードの名前（省略時は登録済みのすべてのカード）'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean().describe('取得できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    cards: z
+      .array(
+        z.object({
+          accountId: z.string().describe('口座ID'),
+          name: z.string().describe('カードの名前'),
+          statements: z.array(cardStatementSchema).describe('未払いの請求（請求期間の古い順。先頭が次の請求）'),
+        })
+      )
+      .describe('カードごとの請求'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const cards = (await store.listAccounts()).filter((account) => account.type === 'credit-card');
+    const targets = context.card ? [findAccount(cards, context.card)].filter((card) => card !== undefined) : cards;
+    if (targets.length === 0) {
+      return {
+        success: false,
+        message: context.card
+          ? `クレジットカード「${context.card}」は登録されていません`
+          : 'クレジットカードが登録されていません',
+        cards: [],
+      };
+    }
+
+    const today = localToday();
+    const results = await Promise.all(
+      targets.map(async (card) => ({
+        accountId: card.id,
+        name: card.name,
+        statements: await getCardStatements(store, card, today),
+      }))
+    );
+    console.log('[DEBUG] Card Billing Tool - Cards:', results.length);
+
+    return {
+      success: true,
+      message: results
+        .map(({ name, statements: [next] }) =>
+          `${name}: ${next.paymentDate}に${next.total.toLocaleString('ja-JP')}円（${next.startDate}〜${next.closingDate}の利用分、${next.closed ? '確定' : '未確定'}）`
+        )
+        .join('\n'),
+      cards: results,
+    };
+  },
+});
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { KAKEIBO_DATA_DIR } from './kakeibo-csv';
+
+// カテゴリー設定（分類体系と店舗名・商品名→カテゴリーのルール）の保存先。ユーザーが編集するファイルで、アプリからは書き換えない
+export const CATEGORY_CONFIG_PATH = path.join(KAKEIBO_DATA_DIR, 'categories.json');
+
+// エージェントの判定結果から学習した商品名→カテゴリーのルールの保存先
+export const LEARNED_RULES_PATH = path.join(KAKEIBO_DATA_DIR, 'learned-rules.json');
+
+// どのカテゴリーにも当てはまらない場合の分類
+export const FALLBACK_CATEGORY = 'その他';
+
+export const DEFAULT_CATEGORIES = [
+  '食費',
+  '外食',
+  '日用品',
+  '交通費',
+  '衣服・美容',
+  '医療費',
+  '趣味・娯楽',
+  '交際費',
+  '教育・教養',
+  '通信費',
+  '水道光熱費',
+  '住居費',
+  FALLBACK_CATEGORY,
+];
+
+export interface CategoryRule {
+  // store: 店舗名に一致, item: 商品名に一致
+  type: 'store' | 'item';
+  // 部分一致で判定する文字列（学習したルールは商品名の完全一致）
+  pattern: string;
+  category: string;
+  // エージェントの判定結果から学習したルール（learned-rules.json に保存される）
+  learned?: boolean;
+}
+
+export interface CategoryConfig {
+  categories: string[];
+  rules: CategoryRule[];
+}
+
+// 商品名の表記（全角・半角と前後の空白の違いを無視する）
+const normalizeItemName = (value: string) => value.normalize('NFKC').trim();
+
+// 学習したルールを読み込む（分類体系に無いカテゴリーのものも含めて、保存されているまま返す）
+const readLearnedRules = (): CategoryRule[] => {
+  if (!fs.existsSync(LEARNED_RULES_PATH)) {
+    return [];
+  }
+  const rules = JSON.parse(fs.readFileSync(LEARNED_RULES_PATH, 'utf-8')) as Array<Partial<CategoryRule>>;
+  return rules
+    .filter((rule) => rule.pattern && rule.category)
+    .map((rule) => ({ type: 'item', pattern: rule.pattern!, category: rule.category!, learned: true }));
+};
+
+// 設定ファイルと学習したルールを読み込む（設定ファイルが無ければデフォルトの分類体系を使う）
+// 設定ファイルのルールを学習したルールより優先する
+export const loadCategoryConfig = (): CategoryConfig => {
+  const config: Partial<CategoryConfig> = fs.existsSync(CATEGORY_CONFIG_PATH)
+    ? JSON.parse(fs.readFileSync(CATEGORY_CONFIG_PATH, 'utf-8'))
+    : {};
+  const categories = config.categories?.length ? config.categories : DEFAULT_CATEGORIES;
+  const userRules = (config.rules || []).map((rule) => ({ ...rule, learned: false }));
+
+  return {
+    categories,
+    // 分類体系に無いカテゴリーを指すルールは無視する（ファイルからは消さない）
+    rules: [...userRules, ...readLearnedRules()].filter((rule) => rule.pattern && categories.includes(rule.category)),
+  };
+};
+
+// ルールからカテゴリーを判定（商品名のルールを店舗名のルールより優先、一致しなければundefined）
+export const findCategoryByRules = (
+  rules: CategoryRule[],
+  storeName: string,
+  itemName: string
+): string | undefined => {
+  const itemRule = rules.find(
+    (rule) =>
+      rule.type === 'item' &&
+      (rule.learned ? normalizeItemName(itemName) === normalizeItemName(rule.pattern) : itemName.includes(rule.pattern))
+  );
+  if (itemRule) {
+    return itemRule.category;
+  }
+
+  return rules.find((rule) => rule.type === 'store' && storeName.includes(rule.pattern))?.category;
+};
+
+// 商品名→カテゴリーのルールを学習したルールに追加して保存（既に学習した商品は上書きしない）
+export const learnItemCategories = (entries: Array<{ itemName: string; category: string }>) => {
+  const { categories } = loadCategoryConfig();
+  const learnedRules = readLearnedRules();
+  const known = new Set(learnedRules.map((rule) => normalizeItemName(rule.pattern)));
+
+  const newRules: CategoryRule[] = [];
+  for (const { itemName, category } of entries) {
+    const name = normalizeItemName(itemName);
+    if (!name || known.has(name) || !categories.includes(category)) {
+      continue;
+    }
+    known.add(name);
+    newRules.push({ type: 'item', pattern: name, category, learned: true });
+  }
+
+  if (newRules.length > 0) {
+    if (!fs.existsSync(KAKEIBO_DATA_DIR)) {
+      fs.mkdirSync(KAKEIBO_DATA_DIR, { recursive: true });
+    }
+    const rules = [...learnedRules, ...newRules].map(({ pattern, category }) => ({ pattern, category }));
+    fs.writeFileSync(LEARNED_RULES_PATH, JSON.stringify(rules, null, 2) + '\n', 'utf-8');
+  }
+
+  return newRules.length;
+};
@@ -0,0 +1,41 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, incomeRecordSchema } from '../ledger';
+import { confirmationOutputSchema, requestConfirmation } from './mutation-confirmation';
+
+export const incomeDeleteTool = createTool({
+  id: 'income-delete',
+  description:
+    '記録済みの収入を収入IDで削除する。削除する収入の内容を返し、ユーザーがチャットの確認カードで実行したときにだけ削除される',
+  inputSchema: z.object({
+    incomeId: z.string().describe('削除する収入のID'),
+  }),
+  outputSchema: confirmationOutputSchema.extend({
+    success: z.boolean().describe('削除の確認を用意できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    income: incomeRecordSchema.optional().describe('削除する収入'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const income = (await store.listIncomes()).find((other) => other.id === context.incomeId);
+    if (!income) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `収入ID「${context.incomeId}」の収入が見つかりません`,
+      };
+    }
+
+    const confirmationId = requestConfirmation('delete-income', { id: income.id }, income);
+    console.log('[DEBUG] Income Delete Tool - Requested confirmation:', context.incomeId);
+
+    return {
+      success: true,
+      requiresConfirmation: true,
+      message: '削除する収入を確認カードに表示しました。ユーザーがカードの「実行」を押すと削除されます',
+      confirmationId,
+      preview: [`${income.date} ${income.source}の収入（${income.amount}円、${income.account || '入金先なし'}）を削除します`],
+      income,
+    };
+  },
+});
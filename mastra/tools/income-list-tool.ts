@@ -0,0 +1,26 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, incomeRecordSchema } from '../ledger';
+
+export const incomeListTool = createTool({
+  id: 'income-list',
+  description: '記録済みの収入を一覧する（削除する収入のIDを調べるときに使う）',
+  inputSchema: z.object({
+    startDate: z.string().optional().describe('開始日（YYYY-MM-DD形式、この日を含む）'),
+    endDate: z.string().optional().describe('終了日（YYYY-MM-DD形式、この日を含む）'),
+    source: z.string().optional().describe('収入源（部分一致）'),
+  }),
+  outputSchema: z.object({
+    incomes: z.array(incomeRecordSchema).describe('該当する収入（受取日の昇順）'),
+    total: z.number().describe('該当する収入の合計'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const incomes = (await store.listIncomes({ startDate: context.startDate, endDate: context.endDate })).filter(
+      (income) => !context.source || income.source.includes(context.source)
+    );
+    console.log('[DEBUG] Income List Tool - Matched incomes:', incomes.length);
+
+    return { incomes, total: incomes.reduce((sum, income) => sum + income.amount, 0) };
+  },
+});
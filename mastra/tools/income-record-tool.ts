@@ -0,0 +1,56 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import {
+  describeMonthlyBalance,
+  getLedgerStore,
+  getMonthlyBalances,
+  incomeRecordSchema,
+  monthlyBalanceSchema,
+  recordIncome,
+} from '../ledger';
+
+export const incomeRecordTool = createTool({
+  id: 'income-record',
+  description: '給与・賞与・返金などの収入を家計簿に記録する',
+  inputSchema: z.object({
+    date: z.string().describe('受取日（YYYY-MM-DD形式）'),
+    source: z.string().describe('収入源（給与、賞与、副業、返金、その他など）'),
+    amount: z.number().describe('金額（円）'),
+    account: z.string().optional().describe('入金先（○○銀行、現金など。省略時は「不明」）'),
+    memo: z.string().optional().describe('メモ'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean().describe('記録できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    income: incomeRecordSchema.optional().describe('記録した収入'),
+    balance: monthlyBalanceSchema.optional().describe('受取月の収支'),
+  }),
+  execute: async ({ context }) => {
+    if (!(context.amount > 0)) {
+      return { success: false, message: '収入には0より大きい金額を指定してください' };
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(context.date)) {
+      return { success: false, message: '受取日は YYYY-MM-DD 形式で指定してください' };
+    }
+
+    const store = await getLedgerStore();
+    const income = await recordIncome(store, {
+      date: context.date,
+      source: context.source,
+      amount: context.amount,
+      account: context.account || '不明',
+      memo: context.memo || '',
+    });
+    console.log('[DEBUG] Income Record Tool - Income ID:', income.id);
+
+    const month = income.date.slice(0, 7);
+    const [balance] = await getMonthlyBalances(store, month, month);
+
+    return {
+      success: true,
+      message: `${income.date} ${income.source} ${income.amount.toLocaleString('ja-JP')}円を記録しました\n${describeMonthlyBalance(balance)}`,
+      income,
+      balance,
+    };
+  },
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// 家計簿データの保存先
+export const KAKEIBO_DATA_DIR = path.join(process.cwd(), 'data');
+
+// 旧形式の家計簿CSV（初回アクセス時にレシート・明細の形式へ取り込む）
+export const KAKEIBO_CSV_PATH = path.join(KAKEIBO_DATA_DIR, 'kakeibo.csv');
+
+// エクスポート用CSVヘッダー
+export const KAKEIBO_CSV_HEADER = 'レシートID,日付,店舗名,カテゴリー,商品名,数量,単価,小計,消費税,合計金額,支払い方法\n';
+
+// 旧形式（レシートIDなし）のCSVヘッダーの先頭列
+const LEGACY_FIRST_COLUMN = '日付';
+
+// 家計簿CSVの1行（1商品）
+export const kakeiboRowSchema = z.object({
+  receiptId: z.string().describe('レシートID'),
+  date: z.string().describe('日付'),
+  storeName: z.string().describe('店舗名'),
+  category: z.string().describe('カテゴリー'),
+  itemName: z.string().describe('商品名'),
+  quantity: z.number().describe('数量'),
+  price: z.number().describe('単価'),
+  itemTotal: z.number().describe('小計'),
+  tax: z.number().describe('消費税'),
+  total: z.number().describe('合計金額'),
+  paymentMethod: z.string().describe('支払い方法'),
+});
+
+export type KakeiboRow = z.infer<typeof kakeiboRowSchema>;
+
+// 行データをCSVの1行に変換
+// 消費税・合計金額はレシート単位の値なので、列を合計しても二重計上にならないよう先頭の商品の行にだけ出力する
+const formatKakeiboRow = (row: KakeiboRow, firstOfReceipt: boolean): string =>
+  [
+    row.receiptId,
+    row.date,
+    escapeCSV(row.storeName),
+    escapeCSV(row.category),
+    escapeCSV(row.itemName),
+    row.quantity,
+    row.price,
+    row.itemTotal,
+    firstOfReceipt ? row.tax : '',
+    firstOfReceipt ? row.total : '',
+    escapeCSV(row.paymentMethod),
+  ].join(',') + '\n';
+
+// 行データをエクスポート用のCSVテキストに変換
+export const formatKakeiboCsv = (rows: KakeiboRow[]): string =>
+  KAKEIBO_CSV_HEADER +
+  rows.map((row, i) => formatKakeiboRow(row, i === 0 || rows[i - 1].receiptId !== row.receiptId)).join('');
+
+// CSVエスケープ処理
+export const escapeCSV = (value: string): string => {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+// CSVテキストを行・列に分解（ダブルクォート内のカンマ・改行に対応）
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// 家計簿CSVを読み込んで行データに変換（ファイルが無ければ空配列）
+// 旧形式のCSVはレシートIDが無いため receiptId は空文字になる
+export const readKakeiboRows = (csvFilePath: string = KAKEIBO_CSV_PATH): KakeiboRow[] => {
+  if (!fs.existsSync(csvFilePath)) {
+    return [];
+  }
+
+  const [header = [], ...records] = parseCSV(fs.readFileSync(csvFilePath, 'utf-8').replace(/^\uFEFF/, ''));
+  const offset = header[0] === LEGACY_FIRST_COLUMN ? 0 : 1;
+
+  return records
+    .filter((record) => record.length >= 10 + offset)
+    .map((record) => ({
+      receiptId: offset ? record[0] : '',
+      date: record[offset],
+      storeName: record[offset + 1],
+      category: record[offset + 2],
+      itemName: record[offset + 3],
+      quantity: Number(record[offset + 4]) || 0,
+      price: Number(record[offset + 5]) || 0,
+      itemTotal: Number(record[offset + 6]) || 0,
+      tax: Number(record[offset + 7]) || 0,
+      total: Number(record[offset + 8]) || 0,
+      paymentMethod: record[offset + 9],
+    }));
+};
@@ -0,0 +1,27 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { countLedgerExport, exportDownloadUrl, exportFileName, exportFilterSchema, exportFormatSchema } from './ledger-export';
+
+export const ledgerExportTool = createTool({
+  id: 'ledger-export',
+  description:
+    '家計簿をファイルに出力し、ダウンロード用のURLを返す（UTF-8 BOM付きCSV、Shift_JIS CSV、Excel、JSON、マネーフォワード クラウド会計の仕訳帳インポート用CSV）',
+  inputSchema: exportFilterSchema.extend({
+    format: exportFormatSchema.describe(
+      '出力形式（csv: Excel向けUTF-8 CSV, csv-sjis: Shift_JIS CSV（Shift_JISで表せない文字があれば出力できない）, xlsx: Excel, json: JSON, journal: マネーフォワード クラウド会計の仕訳帳インポート用CSV）'
+    ),
+  }),
+  outputSchema: z.object({
+    format: exportFormatSchema.describe('出力形式'),
+    fileName: z.string().describe('ファイル名'),
+    downloadUrl: z.string().describe('ダウンロード用のURL'),
+    count: z.number().describe('出力した件数（CSV・Excelは商品の行数、JSONはレシート数、仕訳は仕訳の行数）'),
+  }),
+  execute: async ({ context }) => {
+    const { format, ...filter } = context;
+    // ファイルはダウンロード時に作るので、ここでは件数だけを数える
+    const count = await countLedgerExport(format, filter);
+
+    return { format, fileName: exportFileName(format, filter), downloadUrl: exportDownloadUrl(format, filter), count };
+  },
+});
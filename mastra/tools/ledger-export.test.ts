@@ -0,0 +1,43 @@
+import '../test/temp-ledger-dir';
+import { describe, expect, it } from 'vitest';
+import { getLedgerStore, recordReceipt } from '../ledger';
+import { countLedgerExport, exportLedger, findUnencodableCharacters } from './ledger-export';
+
+describe('findUnencodableCharacters', () => {
+  it('Shift_JIS で表せる文字だけなら空配列を返す', () => {
+    expect(findUnencodableCharacters('レシートID,店舗名\n食パン,ｶﾞｽﾄ,①,?', 'Shift_JIS')).toEqual([]);
+  });
+
+  it('Shift_JIS で表せない文字を重複なく出てきた順に返す', () => {
+    expect(findUnencodableCharacters('寿司🍣,𠮷野家,🍣,Café', 'Shift_JIS')).toEqual(['🍣', '𠮷', 'é']);
+  });
+});
+
+describe('exportLedger', () => {
+  it('仕訳をカテゴリーで絞ると、残った取引に1から順に取引Noを付ける', async () => {
+    const store = await getLedgerStore();
+    const receipt = (date: string, paymentMethod: string, tax: number, items: Array<[string, number]>) => {
+      const subtotal = items.reduce((sum, [, total]) => sum + total, 0);
+      return recordReceipt(
+        store,
+        { date, storeName: 'スーパー', category: items[0][0], subtotal, tax, total: subtotal + tax, paymentMethod },
+        items.map(([category, total]) => ({ name: category, category, quantity: 1, price: total, total }))
+      );
+    };
+    await receipt('2026-09-01T12:00:00', '現金', 80, [['食費', 1000]]);
+    await receipt('2026-09-02T12:00:00', '現金', 0, [['日用品', 500]]);
+    await receipt('2026-09-03T12:00:00', '楽天カード', 100, [['食費', 600], ['日用品', 400]]);
+
+    const filter = { startDate: '2026-09-01', endDate: '2026-09-30', category: '食費' };
+    const { body, count } = await exportLedger('journal', filter);
+    const [header, ...lines] = String(body).replace(/^\uFEFF/, '').trim().split('\n');
+
+    expect(header.split(',')).toHaveLength(19);
+    expect(lines).toEqual([
+      '1,2026/09/01,食費,,課税仕入 (軽)8%,,1080,80,現金,現金,対象外,,1080,,スーパー,,,,',
+      '2,2026/09/03,食費,,課税仕入 10%,,660,60,未払金,楽天カード,対象外,,660,,スーパー,,,,',
+    ]);
+    expect(count).toBe(2);
+    expect(await countLedgerExport('journal', filter)).toBe(2);
+  });
+});
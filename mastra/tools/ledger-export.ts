@@ -0,0 +1,294 @@
+import ExcelJS from 'exceljs';
+import iconv from 'iconv-lite';
+import { z } from 'zod';
+import { allocateReceiptTotal, listKakeiboRows } from '../ledger';
+import { KAKEIBO_CSV_HEADER, KakeiboRow, escapeCSV, formatKakeiboCsv } from './kakeibo-csv';
+
+// csv: UTF-8（BOM付き）, csv-sjis: Shift_JIS, xlsx: Excel, json: レシート単位のJSON, journal: マネーフォワード クラウド会計の仕訳帳インポート用CSV
+export const exportFormatSchema = z.enum(['csv', 'csv-sjis', 'xlsx', 'json', 'journal']);
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+export const exportFilterSchema = z.object({
+  startDate: z.string().optional().describe('開始日（YYYY-MM-DD形式、この日を含む）'),
+  endDate: z.string().optional().describe('終了日（YYYY-MM-DD形式、この日を含む）'),
+  category: z.string().optional().describe('カテゴリー（完全一致）'),
+});
+
+export type ExportFilter = z.infer<typeof exportFilterSchema>;
+
+export interface LedgerExport {
+  body: string | Buffer;
+  contentType: string;
+  fileName: string;
+  // 出力した行数（JSONはレシート数、仕訳は仕訳の行数）
+  count: number;
+}
+
+// Windows版のExcelは BOM が無いと UTF-8 のCSVを Shift_JIS として開いて文字化けする
+const BOM = '\uFEFF';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  'csv-sjis': 'text/csv; charset=Shift_JIS',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+  journal: 'text/csv; charset=utf-8',
+};
+
+// マネーフォワード クラウド会計の仕訳帳インポートの列（貸方補助科目に元の支払い方法を入れる）
+// 借方勘定科目は家計簿のカテゴリーなので、会計ソフトに同じ名前の勘定科目が無ければ取り込む前に登録する
+const JOURNAL_CSV_HEADER =
+  '取引No,取引日,借方勘定科目,借方補助科目,借方税区分,借方部門,借方金額(円),借方税額,' +
+  '貸方勘定科目,貸方補助科目,貸方税区分,貸方部門,貸方金額(円),貸方税額,摘要,仕訳メモ,タグ,MF仕訳タイプ,決算整理仕訳\n';
+
+// ダウンロードするファイル名（例: kakeibo_2024-01-01_2024-03-31_食費.csv）
+export const exportFileName = (format: ExportFormat, filter: ExportFilter): string => {
+  const parts = [
+    format === 'journal' ? 'journal' : 'kakeibo',
+    filter.startDate || filter.endDate ? `${filter.startDate || ''}_${filter.endDate || ''}` : undefined,
+    filter.category,
+  ].filter(Boolean);
+  const extension = format === 'csv-sjis' || format === 'journal' ? 'csv' : format;
+  return `${parts.join('_')}${format === 'csv-sjis' ? '_sjis' : ''}.${extension}`;
+};
+
+// 出力する行（仕訳はレシート全体の合計と商品の小計の差（外税など）を配分するので、カテゴリーで絞る前の行も返す）
+const listExportRows = async (filter: ExportFilter) => {
+  const allRows = await listKakeiboRows({ startDate: filter.startDate, endDate: filter.endDate });
+  const rows = allRows.filter((row) => !filter.category || row.category === filter.category);
+  return { allRows, rows };
+};
+
+// iconv-lite は表せない文字を黙って ? にするので、文字化けしたファイルを出力する前に止める
+const assertShiftJisEncodable = (text: string) => {
+  const unencodable = findUnencodableCharacters(text, 'Shift_JIS');
+  if (unencodable.length > 0) {
+    throw new Error(
+      `Shift_JIS で表せない文字（${unencodable.slice(0, 10).join(' ')}${unencodable.length > 10 ? ' など' : ''}）が含まれているため出力できません。UTF-8 の csv で出力してください`
+    );
+  }
+};
+
+// 家計簿を指定した形式で出力する
+export const exportLedger = async (format: ExportFormat, filter: ExportFilter = {}): Promise<LedgerExport> => {
+  const { allRows, rows } = await listExportRows(filter);
+  console.log('[DEBUG] Ledger Export - Format:', format, 'Filter:', JSON.stringify(filter), 'Rows:', rows.length);
+
+  const result = { contentType: CONTENT_TYPES[format], fileName: exportFileName(format, filter) };
+
+  switch (format) {
+    case 'csv':
+      return { ...result, body: BOM + formatKakeiboCsv(rows), count: rows.length };
+    case 'csv-sjis': {
+      const csv = formatKakeiboCsv(rows);
+      assertShiftJisEncodable(csv);
+      return { ...result, body: iconv.encode(csv, 'Shift_JIS'), count: rows.length };
+    }
+    case 'xlsx':
+      return { ...result, body: await formatKakeiboXlsx(rows), count: rows.length };
+    case 'json': {
+      const receipts = toReceipts(rows);
+      return {
+        ...result,
+        body: JSON.stringify({ exportedAt: new Date().toISOString(), filter, receipts }, null, 2) + '\n',
+        count: receipts.length,
+      };
+    }
+    case 'journal': {
+      const entries = toJournalEntries(allRows, filter.category);
+      return { ...result, body: BOM + formatJournalCsv(entries), count: entries.length };
+    }
+  }
+};
+
+// 出力するときの件数（LedgerExport の count）を、ファイルを作らずに数える
+export const countLedgerExport = async (format: ExportFormat, filter: ExportFilter = {}): Promise<number> => {
+  const { allRows, rows } = await listExportRows(filter);
+
+  switch (format) {
+    case 'csv':
+    case 'xlsx':
+      return rows.length;
+    case 'csv-sjis':
+      // 見出しと数値は Shift_JIS で表せるので、文字列の項目だけを確かめる
+      assertShiftJisEncodable(
+        rows.map((row) => [row.receiptId, row.date, row.storeName, row.category, row.itemName, row.paymentMethod].join('')).join('')
+      );
+      return rows.length;
+    case 'json':
+      return new Set(rows.map((row) => row.receiptId)).size;
+    case 'journal':
+      return toJournalEntries(allRows, filter.category).length;
+  }
+};
+
+// 指定した文字コードで表せない文字（絵文字や、Shift_JIS に無い漢字・記号など）を出てきた順に返す
+export const findUnencodableCharacters = (text: string, encoding: string): string[] =>
+  [...new Set(text)].filter((char) => iconv.decode(iconv.encode(char, encoding), encoding) !== char);
+
+const formatKakeiboXlsx = async (rows: KakeiboRow[]): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('家計簿', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.addRow(KAKEIBO_CSV_HEADER.trim().split(',')).font = { bold: true };
+  rows.forEach((row, i) => {
+    // CSVと同じく、消費税・合計金額はレシートの先頭の商品の行にだけ出力する
+    const firstOfReceipt = i === 0 || rows[i - 1].receiptId !== row.receiptId;
+    sheet.addRow([
+      row.receiptId,
+      row.date,
+      row.storeName,
+      row.category,
+      row.itemName,
+      row.quantity,
+      row.price,
+      row.itemTotal,
+      firstOfReceipt ? row.tax : null,
+      firstOfReceipt ? row.total : null,
+      row.paymentMethod,
+    ]);
+  });
+
+  sheet.columns.forEach((column, i) => {
+    column.width = [16, 20, 24, 12, 24, 8, 10, 10, 10, 10, 14][i];
+    if (i >= 6 && i <= 9) {
+      column.numFmt = '#,##0';
+    }
+  });
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+// 行データをレシート単位にまとめる（JSON出力用）
+const toReceipts = (rows: KakeiboRow[]) => {
+  const receipts = new Map<string, KakeiboRow[]>();
+  for (const row of rows) {
+    receipts.set(row.receiptId, [...(receipts.get(row.receiptId) || []), row]);
+  }
+
+  return [...receipts.entries()].map(([id, items]) => ({
+    id,
+    date: items[0].date,
+    storeName: items[0].storeName,
+    paymentMethod: items[0].paymentMethod,
+    tax: items[0].tax,
+    total: items[0].total,
+    items: items.map((item) => ({
+      name: item.itemName,
+      category: item.category,
+      quantity: item.quantity,
+      price: item.price,
+      total: item.itemTotal,
+    })),
+  }));
+};
+
+type JournalEntry = {
+  no: number;
+  date: string;
+  debitAccount: string;
+  debitTaxCategory: string;
+  creditAccount: string;
+  creditSubAccount: string;
+  amount: number;
+  tax: number;
+  description: string;
+};
+
+// 支払い方法から貸方の勘定科目を決める（判定できなければ現金とし、補助科目の元の支払い方法で直せるようにする）
+const creditAccount = (paymentMethod: string): string => {
+  if (/カード|クレジット|credit/i.test(paymentMethod)) return '未払金';
+  if (/口座|銀行|引き落とし|引落|振込|デビット/.test(paymentMethod)) return '普通預金';
+  return '現金';
+};
+
+// レシートの消費税から借方の税区分を決める（税率はレシート全体の消費税の割合から、8%と10%の近い方にする）
+// 消費税が読み取れていないレシートは、税額が分からないので対象外にする
+const debitTaxCategory = (total: number, tax: number): string => {
+  if (tax <= 0 || total <= tax) return '対象外';
+  return Math.abs(tax / (total - tax) - 0.08) < Math.abs(tax / (total - tax) - 0.1) ? '課税仕入 (軽)8%' : '課税仕入 10%';
+};
+
+// レシート1枚を1取引とし、カテゴリー（借方の勘定科目）ごとに1行の仕訳にする
+// 金額は集計・ダッシュボードと同じく、レシートの合計金額を商品の小計に比例して配分した額にする（消費税も同じく配分する）
+// category を指定すると、そのカテゴリーの行だけを残し、残った取引に1から順に取引Noを付ける
+const toJournalEntries = (rows: KakeiboRow[], category?: string): JournalEntry[] => {
+  const receipts = new Map<string, KakeiboRow[]>();
+  for (const row of rows) {
+    receipts.set(row.receiptId, [...(receipts.get(row.receiptId) || []), row]);
+  }
+
+  const transactions = [...receipts.values()].map((items) => {
+    const [first] = items;
+    const allocated = allocateReceiptTotal(
+      first.total,
+      items.map((item) => item.itemTotal)
+    );
+    const amounts = new Map<string, number>();
+    items.forEach((item, i) => amounts.set(item.category, (amounts.get(item.category) || 0) + allocated[i]));
+
+    const lines = [...amounts.entries()].filter(([, amount]) => amount !== 0);
+    const taxCategory = debitTaxCategory(first.total, first.tax);
+    const taxes = allocateReceiptTotal(
+      taxCategory === '対象外' ? 0 : first.tax,
+      lines.map(([, amount]) => amount)
+    );
+    return lines
+      .map(([lineCategory, amount], i) => ({
+        date: first.date.slice(0, 10).replace(/-/g, '/'),
+        debitAccount: lineCategory,
+        debitTaxCategory: taxCategory,
+        creditAccount: creditAccount(first.paymentMethod),
+        creditSubAccount: first.paymentMethod,
+        amount,
+        tax: taxes[i],
+        description: first.storeName,
+      }))
+      .filter((line) => !category || line.debitAccount === category);
+  });
+
+  return transactions
+    .filter((lines) => lines.length > 0)
+    .flatMap((lines, i) => lines.map((line) => ({ ...line, no: i + 1 })));
+};
+
+// 貸方は支払い手段の減少（負債の増加）なので、税区分は対象外
+const formatJournalCsv = (entries: JournalEntry[]): string =>
+  JOURNAL_CSV_HEADER +
+  entries
+    .map(
+      (entry) =>
+        [
+          entry.no,
+          entry.date,
+          escapeCSV(entry.debitAccount),
+          '',
+          escapeCSV(entry.debitTaxCategory),
+          '',
+          entry.amount,
+          entry.tax || '',
+          escapeCSV(entry.creditAccount),
+          escapeCSV(entry.creditSubAccount),
+          '対象外',
+          '',
+          entry.amount,
+          '',
+          escapeCSV(entry.description),
+          '',
+          '',
+          '',
+          '',
+        ].join(',') + '\n'
+    )
+    .join('');
+
+// ダウンロード用のURL（/api/ledger/export）
+export const exportDownloadUrl = (format: ExportFormat, filter: ExportFilter): string => {
+  const params = new URLSearchParams({ format });
+  if (filter.startDate) params.set('from', filter.startDate);
+  if (filter.endDate) params.set('to', filter.endDate);
+  if (filter.category) params.set('category', filter.category);
+  return `/api/ledger/export?${params}`;
+};
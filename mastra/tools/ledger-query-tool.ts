@@ -0,0 +1,102 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { SpendingRow, listSpendingRows } from '../ledger';
+
+const groupBySchema = z.enum(['month', 'store', 'category', 'paymentMethod']);
+
+const aggregateSchema = z.object({
+  totalAmount: z.number().describe('支出合計（レシートの合計金額を商品ごとに配分した額の合計、税込）'),
+  itemCount: z.number().describe('商品数'),
+  receiptCount: z.number().describe('レシート枚数'),
+});
+
+export const ledgerQueryTool = createTool({
+  id: 'ledger-query',
+  description: '家計簿を集計し、期間・店舗・カテゴリー・支払い方法ごとの支出合計を返す',
+  inputSchema: z.object({
+    month: z.string().optional().describe('対象月（YYYY-MM形式）'),
+    startDate: z.string().optional().describe('集計開始日（YYYY-MM-DD形式、この日を含む）'),
+    endDate: z.string().optional().describe('集計終了日（YYYY-MM-DD形式、この日を含む）'),
+    storeName: z.string().optional().describe('店舗名（部分一致）'),
+    category: z.string().optional().describe('カテゴリー（完全一致）'),
+    paymentMethod: z.string().optional().describe('支払い方法（完全一致）'),
+    groupBy: groupBySchema.optional().describe('内訳の単位（month: 月別, store: 店舗別, category: カテゴリー別, paymentMethod: 支払い方法別）'),
+  }),
+  outputSchema: aggregateSchema.extend({
+    groups: z.array(
+      aggregateSchema.extend({
+        key: z.string().describe('内訳のキー（月・店舗名など）'),
+      })
+    ).describe('groupBy指定時の内訳'),
+  }),
+  execute: async ({ context }) => {
+    // 期間の絞り込みは保存先に任せ、残りの条件はここで絞り込む
+    const rows = (await listSpendingRows({ startDate: context.startDate, endDate: context.endDate })).filter((row) => matchesFilter(row, context));
+
+    console.log('[DEBUG] Ledger Query Tool - Filter:', JSON.stringify(context));
+    console.log('[DEBUG] Ledger Query Tool - Matched rows:', rows.length);
+
+    const groups = new Map<string, SpendingRow[]>();
+    if (context.groupBy) {
+      for (const row of rows) {
+        const key = groupKey(row, context.groupBy);
+        groups.set(key, [...(groups.get(key) || []), row]);
+      }
+    }
+
+    return {
+      ...aggregate(rows),
+      groups: [...groups.entries()]
+        .map(([key, groupRows]) => ({ key, ...aggregate(groupRows) }))
+        .sort((a, b) =>
+          context.groupBy === 'month' ? a.key.localeCompare(b.key) : b.totalAmount - a.totalAmount
+        ),
+    };
+  },
+});
+
+type LedgerFilter = {
+  month?: string;
+  startDate?: string;
+  endDate?: string;
+  storeName?: string;
+  category?: string;
+  paymentMethod?: string;
+};
+
+const matchesFilter = (row: SpendingRow, filter: LedgerFilter): boolean => {
+  const day = row.date.slice(0, 10);
+
+  if (filter.month && !day.startsWith(filter.month)) return false;
+  if (filter.startDate && day < filter.startDate) return false;
+  if (filter.endDate && day > filter.endDate) return false;
+  if (filter.storeName && !row.storeName.includes(filter.storeName)) return false;
+  if (filter.category && row.category !== filter.category) return false;
+  if (filter.paymentMethod && row.paymentMethod !== filter.paymentMethod) return false;
+
+  return true;
+};
+
+const groupKey = (row: SpendingRow, groupBy: z.infer<typeof groupBySchema>): string => {
+  switch (groupBy) {
+    case 'month':
+      return row.date.slice(0, 7);
+    case 'store':
+      return row.storeName;
+    case 'category':
+      return row.category;
+    case 'paymentMethod':
+      return row.paymentMethod;
+  }
+};
+
+// 商品ごとのカテゴリーで絞り込めるよう、商品ごとに配分した支払額を合算する
+const aggregate = (rows: SpendingRow[]) => {
+  const receipts = new Set(rows.map((row) => row.receiptId));
+
+  return {
+    totalAmount: rows.reduce((sum, row) => sum + row.amount, 0),
+    itemCount: rows.length,
+    receiptCount: receipts.size,
+  };
+};
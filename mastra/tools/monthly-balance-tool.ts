@@ -0,0 +1,37 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, getMonthlyBalances, monthlyBalanceSchema, localMonth } from '../ledger';
+
+export const monthlyBalanceTool = createTool({
+  id: 'monthly-balance',
+  description: '月ごとの収入・支出・収支・貯蓄率を返す',
+  inputSchema: z.object({
+    startMonth: z.string().optional().describe('開始月（YYYY-MM形式、省略時は終了月と同じ）'),
+    endMonth: z.string().optional().describe('終了月（YYYY-MM形式、省略時は今月）'),
+  }),
+  outputSchema: z.object({
+    months: z.array(monthlyBalanceSchema).describe('月ごとの収支（古い月から順）'),
+    totalIncome: z.number().describe('期間の収入の合計'),
+    totalExpense: z.number().describe('期間の支出の合計'),
+    totalBalance: z.number().describe('期間の収支'),
+    savingsRate: z.number().optional().describe('期間の貯蓄率（%）。収入が無い場合は省略'),
+  }),
+  execute: async ({ context }) => {
+    const endMonth = context.endMonth || localMonth();
+    const startMonth = context.startMonth || endMonth;
+    const months = await getMonthlyBalances(await getLedgerStore(), startMonth, endMonth);
+    console.log('[DEBUG] Monthly Balance Tool - Months:', startMonth, endMonth, months.length);
+
+    const totalIncome = months.reduce((sum, month) => sum + month.income, 0);
+    const totalExpense = months.reduce((sum, month) => sum + month.expense, 0);
+    const totalBalance = totalIncome - totalExpense;
+
+    return {
+      months,
+      totalIncome,
+      totalExpense,
+      totalBalance,
+      savingsRate: totalIncome > 0 ? Math.round((totalBalance / totalIncome) * 1000) / 10 : undefined,
+    };
+  },
+});
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { KAKEIBO_DATA_DIR } from './kakeibo-csv';
+
+// 家計簿を書き換えるツールの確認手順
+// ツールは変更内容のプレビューを返し、変更を確認待ちとして保存するだけで、何も変更しない。
+// 変更はチャットの確認カードでユーザーが「実行」を押したとき（/api/mutations）にだけ実行する。
+// 確認IDは推測できない乱数で1回しか使えず、エージェントには変更を実行する手段が無い。
+// 実行時に変更対象の内容がプレビューのときと変わっていれば実行しない。
+
+const PENDING_MUTATIONS_PATH = path.join(KAKEIBO_DATA_DIR, 'pending-mutations.json');
+
+// 確認待ちの有効期限（分）
+const CONFIRMATION_TTL_MINUTES = 30;
+
+// 処理済みの確認を残しておく期間（確認カードの表示用、日）
+const RESOLVED_RETENTION_DAYS = 7;
+
+export const mutationKindSchema = z.enum([
+  'update-receipt',
+  'delete-receipt',
+  'delete-income',
+  'set-recurring',
+  'delete-recurring',
+  'delete-account',
+]);
+
+export type MutationKind = z.infer<typeof mutationKindSchema>;
+
+// pending: 確認待ち, running: 実行中, approved: 実行した, rejected: 取り消した, failed: 実行できなかった, expired: 期限切れ
+export type MutationStatus = 'pending' | 'running' | 'approved' | 'rejected' | 'failed' | 'expired';
+
+export interface PendingMutation {
+  id: string;
+  kind: MutationKind;
+  // 実行に必要な値（変更後のレシート、削除する記録のIDなど）
+  payload: Record<string, unknown>;
+  // プレビューしたときの変更対象の内容のハッシュ
+  fingerprint: string;
+  status: MutationStatus;
+  message?: string;
+  createdAt: string;
+}
+
+// ツールの出力に含める確認の項目
+export const confirmationOutputSchema = z.object({
+  requiresConfirmation: z.boolean().describe('ユーザーの確認が必要かどうか（確認カードで実行するまで何も変更されない）'),
+  confirmationId: z.string().optional().describe('確認カードが使う確認ID（エージェントからは実行できない）'),
+  preview: z.array(z.string()).optional().describe('確認カードに表示する変更内容'),
+});
+
+export const fingerprint = (value: unknown): string =>
+  crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+const readPendingMutations = (): Record<string, PendingMutation> => {
+  if (!fs.existsSync(PENDING_MUTATIONS_PATH)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(PENDING_MUTATIONS_PATH, 'utf-8'));
+};
+
+// 古い記録を取り除いて保存する
+const writePendingMutations = (mutations: Record<string, PendingMutation>) => {
+  const retention = Date.now() - RESOLVED_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = Object.fromEntries(
+    Object.entries(mutations).filter(([, mutation]) => new Date(mutation.createdAt).getTime() >= retention)
+  );
+
+  if (!fs.existsSync(KAKEIBO_DATA_DIR)) {
+    fs.mkdirSync(KAKEIBO_DATA_DIR, { recursive: true });
+  }
+  fs.writeFileSync(PENDING_MUTATIONS_PATH, JSON.stringify(kept, null, 2) + '\n', 'utf-8');
+};
+
+const isExpired = (mutation: PendingMutation) =>
+  mutation.status === 'pending' &&
+  Date.now() - new Date(mutation.createdAt).getTime() > CONFIRMATION_TTL_MINUTES * 60 * 1000;
+
+// 変更を確認待ちとして保存し、確認IDを返す（current はプレビューしたときの変更対象の内容）
+export const requestConfirmation = (kind: MutationKind, payload: Record<string, unknown>, current: unknown): string => {
+  const id = crypto.randomBytes(16).toString('hex');
+  const mutations = readPendingMutations();
+  mutations[id] = {
+    id,
+    kind,
+    payload,
+    fingerprint: fingerprint(current),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  writePendingMutations(mutations);
+  console.log('[DEBUG] Mutation Confirmation - Requested:', kind, id);
+  return id;
+};
+
+export const getPendingMutation = (id: string): PendingMutation | undefined => {
+  const mutation = readPendingMutations()[id];
+  return mutation && isExpired(mutation) ? { ...mutation, status: 'expired' } : mutation;
+};
+
+// 確認待ちの変更を実行中にする（1回しか成功しない。確認待ちでなければ undefined）
+export const claimPendingMutation = (id: string): PendingMutation | undefined => {
+  const mutations = readPendingMutations();
+  const mutation = mutations[id];
+  if (!mutation || mutation.status !== 'pending' || isExpired(mutation)) {
+    return undefined;
+  }
+  mutations[id] = { ...mutation, status: 'running' };
+  writePendingMutations(mutations);
+  return mutations[id];
+};
+
+export const resolvePendingMutation = (id: string, status: MutationStatus, message: string) => {
+  const mutations = readPendingMutations();
+  if (mutations[id]) {
+    mutations[id] = { ...mutations[id], status, message };
+    writePendingMutations(mutations);
+  }
+};
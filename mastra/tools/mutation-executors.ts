@@ -0,0 +1,98 @@
+import {
+  AccountRecord,
+  IncomeRecord,
+  LedgerStore,
+  ReceiptWithItems,
+  RecurringExpenseRecord,
+  getLedgerStore,
+  getReceiptWithItems,
+  localToday,
+  recordDueRecurringExpenses,
+} from '../ledger';
+import { PendingMutation, fingerprint } from './mutation-confirmation';
+
+type MutationResult = { success: boolean; message: string };
+
+const CHANGED_MESSAGE = 'プレビューした後に内容が変わったため実行しませんでした。もう一度プレビューしてください';
+
+// 変更の種類ごとに、変更対象の現在の内容を取得する（プレビューのときと同じ値を返すこと）
+const currentTarget = async (store: LedgerStore, mutation: PendingMutation): Promise<unknown> => {
+  const id = String(mutation.payload.id);
+  switch (mutation.kind) {
+    case 'update-receipt':
+    case 'delete-receipt':
+      return getReceiptWithItems(store, id);
+    case 'delete-income':
+      return (await store.listIncomes()).find((income) => income.id === id);
+    case 'set-recurring':
+      // 新しく登録する場合は変更前の定期支出が無いので、いつも値を返す
+      return { expense: (await store.listRecurringExpenses()).find((expense) => expense.id === id) ?? null };
+    case 'delete-recurring':
+      return (await store.listRecurringExpenses()).find((expense) => expense.id === id);
+    case 'delete-account':
+      return (await store.listAccounts()).find((account) => account.id === id);
+  }
+};
+
+// 確認カードで承認された変更を実行する
+export const executeMutation = async (mutation: PendingMutation): Promise<MutationResult> => {
+  const store = await getLedgerStore();
+  const target = await currentTarget(store, mutation);
+  if (!target) {
+    return { success: false, message: '変更対象の記録が見つかりません（既に削除されている可能性があります）' };
+  }
+  if (fingerprint(target) !== mutation.fingerprint) {
+    return { success: false, message: CHANGED_MESSAGE };
+  }
+
+  const id = String(mutation.payload.id);
+  console.log('[DEBUG] Mutation Executor - Kind:', mutation.kind, 'Target:', id);
+
+  switch (mutation.kind) {
+    case 'update-receipt': {
+      const { items, ...receipt } = mutation.payload.after as ReceiptWithItems;
+      await store.updateReceipt(receipt, items);
+      return { success: true, message: 'レシートを変更しました' };
+    }
+    case 'delete-receipt': {
+      const receipt = target as ReceiptWithItems;
+      await store.deleteReceipt(id);
+      return {
+        success: true,
+        message: `${receipt.date.slice(0, 10)} ${receipt.storeName}のレシート（${receipt.total}円）を削除しました`,
+      };
+    }
+    case 'delete-income': {
+      const income = target as IncomeRecord;
+      await store.deleteIncome(id);
+      return { success: true, message: `${income.date} ${income.source}の収入（${income.amount}円）を削除しました` };
+    }
+    case 'set-recurring': {
+      const expense = mutation.payload.expense as RecurringExpenseRecord;
+      const existing = (target as { expense: RecurringExpenseRecord | null }).expense;
+      await store.setRecurringExpense(expense);
+      const recorded = await recordDueRecurringExpenses(store, localToday());
+      return {
+        success: true,
+        message: `定期支出「${expense.name}」を${existing ? '変更' : '登録'}し、${recorded.length}回分を家計簿に記録しました`,
+      };
+    }
+    case 'delete-recurring': {
+      const expense = target as RecurringExpenseRecord;
+      await store.deleteRecurringExpense(id);
+      return { success: true, message: `定期支出「${expense.name}」を削除しました（記録済みの支出は残っています）` };
+    }
+    case 'delete-account': {
+      const account = target as AccountRecord;
+      await store.deleteAccount(id);
+      // この口座から引き落としていたカードは、引き落とし口座を未設定にする
+      for (const card of (await store.listAccounts()).filter((other) => other.paymentAccountId === id)) {
+        await store.setAccount({ ...card, paymentAccountId: '' });
+      }
+      return {
+        success: true,
+        message: `口座「${account.name}」を削除しました（記録済みのレシートの支払い方法は残っています）`,
+      };
+    }
+  }
+};
@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+
+// 1つのPDFから読み取る最大ページ数（OCRに送る画像の枚数を抑える）
+export const MAX_PDF_PAGES = 5;
+
+// OCRに十分な解像度にするため、PDFの1ptを2pxで描画する
+const RENDER_SCALE = 2;
+
+export const isPdfUrl = (url: string): boolean => url.startsWith('data:application/pdf');
+
+// data URLからPDFのバイト列を取得する。サーバーから任意のURLへアクセスしないよう、他のURLは受け付けない
+const loadPdf = (url: string): Uint8Array => {
+  if (!url.startsWith('data:')) {
+    throw new Error('PDFはdata URLで渡してください（URLからの取得には対応していません）');
+  }
+  return new Uint8Array(Buffer.from(url.slice(url.indexOf(',') + 1), 'base64'));
+};
+
+// PDFの各ページを画像（JPEGのdata URL）に変換する
+export const renderPdfPages = async (url: string, maxPages: number = MAX_PDF_PAGES): Promise<string[]> => {
+  // canvasはネイティブモジュールのため、PDFを受け取ったときに初めて読み込む（画像だけなら不要）
+  const { createCanvas } = await import('canvas');
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await getDocument({ data: loadPdf(url), isEvalSupported: false }).promise;
+
+  try {
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    console.log('[DEBUG] PDF pages:', pdf.numPages, 'Rendering:', pageCount);
+
+    const images: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+
+      // 背景が透明なPDFもあるため白で塗りつぶしてから描画する
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+      page.cleanup();
+
+      const jpeg = await sharp(canvas.toBuffer('image/png')).jpeg({ quality: 85 }).toBuffer();
+      images.push(`data:image/jpeg;base64,${jpeg.toString('base64')}`);
+    }
+
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
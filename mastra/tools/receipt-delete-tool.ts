@@ -0,0 +1,44 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, getReceiptWithItems, receiptWithItemsSchema } from '../ledger';
+import { confirmationOutputSchema, requestConfirmation } from './mutation-confirmation';
+
+export const receiptDeleteTool = createTool({
+  id: 'receipt-delete',
+  description:
+    '記録済みのレシートを明細ごとレシートIDで削除する。削除するレシートの内容を返し、ユーザーがチャットの確認カードで実行したときにだけ削除される',
+  inputSchema: z.object({
+    receiptId: z.string().describe('削除するレシートのID'),
+  }),
+  outputSchema: confirmationOutputSchema.extend({
+    success: z.boolean().describe('削除の確認を用意できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    receipt: receiptWithItemsSchema.optional().describe('削除するレシート'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const receipt = await getReceiptWithItems(store, context.receiptId);
+    if (!receipt) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `レシートID「${context.receiptId}」のレシートが見つかりません`,
+      };
+    }
+
+    const confirmationId = requestConfirmation('delete-receipt', { id: receipt.id }, receipt);
+    console.log('[DEBUG] Receipt Delete Tool - Requested confirmation:', context.receiptId);
+
+    return {
+      success: true,
+      requiresConfirmation: true,
+      message: '削除するレシートを確認カードに表示しました。ユーザーがカードの「実行」を押すと削除されます',
+      confirmationId,
+      preview: [
+        `${receipt.date.slice(0, 10)} ${receipt.storeName}のレシート（${receipt.total}円）を削除します`,
+        ...receipt.items.map((item) => `${item.lineNo}. ${item.name} ${item.total}円（${item.category}）`),
+      ],
+      receipt,
+    };
+  },
+});
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { getLedgerStore } from '../ledger';
+
+export interface ReceiptForFingerprint {
+  storeName: string;
+  date: string;
+  items: Array<{ name: string; total: number }>;
+  total: number;
+}
+
+export const duplicateMatchSchema = z.object({
+  receiptId: z.string().describe('記録済みレシートのID'),
+  kind: z.enum(['exact', 'similar']).describe('exact: 完全一致, similar: OCRの揺れを考慮した類似'),
+  similarity: z.number().describe('類似度（0〜1）'),
+  storeName: z.string().describe('記録済みレシートの店舗名'),
+  date: z.string().describe('記録済みレシートの購入日時'),
+  total: z.number().describe('記録済みレシートの合計金額'),
+});
+
+export type DuplicateMatch = z.infer<typeof duplicateMatchSchema>;
+
+// 類似と判定する下限
+const SIMILARITY_THRESHOLD = 0.75;
+
+// 全角・半角や記号、空白の違いを吸収する
+const normalize = (value: string) =>
+  value.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+// 店舗名・日付（日単位）・合計金額・商品名から、レシートを識別するハッシュを作る
+export const receiptFingerprint = (receipt: ReceiptForFingerprint): string => {
+  const canonical = [
+    normalize(receipt.storeName),
+    receipt.date.slice(0, 10),
+    receipt.total,
+    ...receipt.items.map((item) => `${normalize(item.name)}:${item.total}`).sort(),
+  ].join('|');
+
+  return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+};
+
+// 編集距離による文字列の類似度（0〜1）。短い商品名の1文字の読み違いも拾えるようにする
+const textSimilarity = (a: string, b: string): number => {
+  const x = [...normalize(a)];
+  const y = [...normalize(b)];
+  if (x.length === 0 || y.length === 0) return x.length === y.length ? 1 : 0;
+
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[y.length] / Math.max(x.length, y.length);
+};
+
+const dayDistance = (a: string, b: string) =>
+  Math.abs(new Date(a.slice(0, 10)).getTime() - new Date(b.slice(0, 10)).getTime()) / (24 * 60 * 60 * 1000);
+
+// OCRの読み違いを考慮した2枚のレシートの類似度（明らかに別物なら0）
+const receiptSimilarity = (a: ReceiptForFingerprint, b: ReceiptForFingerprint): number => {
+  // 日付は前後1日、合計金額は2%（最低10円）までの読み違いを許容する
+  if (!(dayDistance(a.date, b.date) <= 1)) return 0;
+  if (Math.abs(a.total - b.total) > Math.max(10, a.total * 0.02)) return 0;
+
+  const storeScore = textSimilarity(a.storeName, b.storeName);
+  if (a.items.length === 0 || b.items.length === 0) {
+    return storeScore;
+  }
+
+  const matchedItems = a.items.filter((item) =>
+    b.items.some((other) => textSimilarity(item.name, other.name) >= 0.6)
+  ).length;
+  const itemScore = matchedItems / Math.max(a.items.length, b.items.length);
+
+  return (storeScore + itemScore) / 2;
+};
+
+// 記録済みのレシートを明細付きで読み込む
+export const readRecordedReceipts = async (): Promise<Array<ReceiptForFingerprint & { id: string }>> => {
+  const store = await getLedgerStore();
+  const receipts = await store.listReceipts();
+  const items = await store.listReceiptItems();
+
+  return receipts.map((receipt) => ({
+    id: receipt.id,
+    storeName: receipt.storeName,
+    date: receipt.date,
+    total: receipt.total,
+    items: items
+      .filter((item) => item.receiptId === receipt.id)
+      .map((item) => ({ name: item.name, total: item.total })),
+  }));
+};
+
+// 記録済みのレシートから重複の疑いがあるものを類似度の高い順に返す
+export const findDuplicateReceipts = async (
+  receipt: ReceiptForFingerprint,
+  recorded?: Array<ReceiptForFingerprint & { id: string }>
+): Promise<DuplicateMatch[]> => {
+  const fingerprint = receiptFingerprint(receipt);
+
+  return (recorded || (await readRecordedReceipts()))
+    .map((other) => {
+      const exact = receiptFingerprint(other) === fingerprint;
+      const similarity = exact ? 1 : receiptSimilarity(receipt, other);
+      return {
+        receiptId: other.id,
+        kind: exact ? 'exact' as const : 'similar' as const,
+        similarity: Math.round(similarity * 100) / 100,
+        storeName: other.storeName,
+        date: other.date,
+        total: other.total,
+      };
+    })
+    .filter((match) => match.kind === 'exact' || match.similarity >= SIMILARITY_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+};
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { KAKEIBO_DATA_DIR } from './kakeibo-csv';
+
+// 前処理後の画像の長辺（detail: 'high' では2048pxに収めてから768px単位のタイルに分割される）
+const DEFAULT_MAX_SIZE = 2048;
+
+// 背景とみなす色の差（大きいほど積極的に余白を切り取る）
+const TRIM_THRESHOLD = 40;
+
+// RECEIPT_IMAGE_DEBUG=1 のとき、前処理前後の画像をここに保存する
+export const RECEIPT_DEBUG_IMAGE_DIR = path.join(KAKEIBO_DATA_DIR, 'ocr-debug');
+
+const maxImageSize = (): number => Number(process.env.RECEIPT_IMAGE_MAX_SIZE) || DEFAULT_MAX_SIZE;
+
+// data URLから画像のバイト列を取得する。サーバーから任意のURLへアクセスしないよう、他のURLは受け付けない
+const loadImage = (url: string): Buffer => {
+  if (!url.startsWith('data:')) {
+    throw new Error('画像はdata URLで渡してください（URLからの取得には対応していません）');
+  }
+  return Buffer.from(url.slice(url.indexOf(',') + 1), 'base64');
+};
+
+// 向きを直した画像から、背景（四隅の色）と同じ色の余白を切り取る。切り取れない画像はそのまま使う
+const trimToReceipt = async (image: Buffer): Promise<Buffer> => {
+  try {
+    const trimmed = await sharp(image).trim({ threshold: TRIM_THRESHOLD }).toBuffer({ resolveWithObject: true });
+    return trimmed.info.width > 0 && trimmed.info.height > 0 ? trimmed.data : image;
+  } catch (error) {
+    console.log('[DEBUG] Receipt Image - Trim skipped:', error instanceof Error ? error.message : error);
+    return image;
+  }
+};
+
+const saveDebugImages = async (before: Buffer, after: Buffer) => {
+  if (!fs.existsSync(RECEIPT_DEBUG_IMAGE_DIR)) {
+    fs.mkdirSync(RECEIPT_DEBUG_IMAGE_DIR, { recursive: true });
+  }
+
+  const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}`;
+  const { format = 'bin' } = await sharp(before).metadata();
+  fs.writeFileSync(path.join(RECEIPT_DEBUG_IMAGE_DIR, `${name}-before.${format}`), before);
+  fs.writeFileSync(path.join(RECEIPT_DEBUG_IMAGE_DIR, `${name}-after.jpg`), after);
+  console.log('[DEBUG] Receipt Image - Saved debug images:', name);
+};
+
+// OCR前の前処理: EXIFの向きで回転 → レシートの端で切り取り → グレースケール → コントラスト強調 → 縮小
+export const preprocessReceiptImage = async (url: string): Promise<string> => {
+  const original = loadImage(url);
+  const rotated = await sharp(original).rotate().toBuffer();
+  const trimmed = await trimToReceipt(rotated);
+
+  const maxSize = maxImageSize();
+  const processed = await sharp(trimmed)
+    .grayscale()
+    .normalize()
+    .resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+
+  console.log(
+    '[DEBUG] Receipt Image - Preprocessed:',
+    `${original.length} bytes ->`,
+    `${processed.data.length} bytes (${processed.info.width}x${processed.info.height})`
+  );
+
+  if (process.env.RECEIPT_IMAGE_DEBUG === '1') {
+    await saveDebugImages(original, processed.data);
+  }
+
+  return `data:image/jpeg;base64,${processed.data.toString('base64')}`;
+};
@@ -0,0 +1,37 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, receiptWithItemsSchema } from '../ledger';
+
+export const receiptListTool = createTool({
+  id: 'receipt-list',
+  description: '記録済みのレシートを新しい順に明細付きで一覧する。レシートの修正・削除の前に対象のレシートIDを調べるために使う',
+  inputSchema: z.object({
+    startDate: z.string().optional().describe('購入日の開始（YYYY-MM-DD形式、この日を含む）'),
+    endDate: z.string().optional().describe('購入日の終了（YYYY-MM-DD形式、この日を含む）'),
+    storeName: z.string().optional().describe('店舗名（部分一致）'),
+    limit: z.number().optional().describe('最大件数（既定は10件）'),
+  }),
+  outputSchema: z.object({
+    receipts: z.array(receiptWithItemsSchema).describe('レシート（新しい順）'),
+    totalCount: z.number().describe('条件に一致したレシートの件数'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const receipts = (await store.listReceipts({ startDate: context.startDate, endDate: context.endDate }))
+      .filter((receipt) => !context.storeName || receipt.storeName.includes(context.storeName))
+      .reverse();
+    const listed = receipts.slice(0, context.limit || 10);
+    const items = await store.listReceiptItems(listed.map((receipt) => receipt.id));
+
+    console.log('[DEBUG] Receipt List Tool - Filter:', JSON.stringify(context));
+    console.log('[DEBUG] Receipt List Tool - Matched receipts:', receipts.length);
+
+    return {
+      receipts: listed.map((receipt) => ({
+        ...receipt,
+        items: items.filter((item) => item.receiptId === receipt.id),
+      })),
+      totalCount: receipts.length,
+    };
+  },
+});
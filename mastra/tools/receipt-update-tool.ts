@@ -0,0 +1,165 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import {
+  ReceiptWithItems,
+  getLedgerStore,
+  getReceiptWithItems,
+  normalizePaymentMethod,
+  receiptWithItemsSchema,
+} from '../ledger';
+import { confirmationOutputSchema, requestConfirmation } from './mutation-confirmation';
+
+const receiptChangesSchema = z.object({
+  date: z.string().optional().describe('購入日時（YYYY-MM-DDTHH:mm:ss形式）'),
+  storeName: z.string().optional().describe('店舗名'),
+  category: z.string().optional().describe('カテゴリー（指定すると全商品のカテゴリーも変更する）'),
+  paymentMethod: z.string().optional().describe('支払い方法'),
+  subtotal: z.number().optional().describe('小計'),
+  tax: z.number().optional().describe('消費税'),
+  total: z.number().optional().describe('合計金額'),
+});
+
+const itemChangesSchema = z.object({
+  lineNo: z.number().describe('変更する明細の行番号'),
+  name: z.string().optional().describe('商品名'),
+  category: z.string().optional().describe('カテゴリー'),
+  quantity: z.number().optional().describe('数量'),
+  price: z.number().optional().describe('単価'),
+  total: z.number().optional().describe('小計（省略時は数量・単価の変更に合わせて計算し直す）'),
+});
+
+type ReceiptChanges = z.infer<typeof receiptChangesSchema>;
+type ItemChanges = z.infer<typeof itemChangesSchema>;
+
+export const receiptUpdateTool = createTool({
+  id: 'receipt-update',
+  description:
+    '記録済みのレシートまたは明細の内容をレシートIDで変更する。変更後の内容のプレビューを返し、ユーザーがチャットの確認カードで実行したときにだけ変更される',
+  inputSchema: z.object({
+    receiptId: z.string().describe('変更するレシートのID'),
+    receipt: receiptChangesSchema.optional().describe('レシートの変更内容（変更する項目だけ指定）'),
+    items: z.array(itemChangesSchema).optional().describe('明細の変更内容（変更する明細・項目だけ指定）'),
+  }),
+  outputSchema: confirmationOutputSchema.extend({
+    success: z.boolean().describe('変更の確認を用意できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    before: receiptWithItemsSchema.optional().describe('変更前の内容'),
+    after: receiptWithItemsSchema.optional().describe('変更後の内容'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const before = await getReceiptWithItems(store, context.receiptId);
+    if (!before) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `レシートID「${context.receiptId}」のレシートが見つかりません`,
+      };
+    }
+
+    const unknownLines = (context.items || [])
+      .map((item) => item.lineNo)
+      .filter((lineNo) => !before.items.some((item) => item.lineNo === lineNo));
+    if (unknownLines.length > 0) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `行番号 ${unknownLines.join(', ')} の明細が見つかりません`,
+        before,
+      };
+    }
+
+    // 支払い方法は記録時と同じく登録済みの口座の名前にそろえる（確認前と確認後で同じ内容になる）
+    const changes = context.receipt?.paymentMethod
+      ? { ...context.receipt, paymentMethod: await normalizePaymentMethod(store, context.receipt.paymentMethod) }
+      : context.receipt || {};
+    const after = applyChanges(before, changes, context.items || []);
+
+    const preview = describeChanges(before, after);
+    if (preview.length === 0) {
+      return { success: false, requiresConfirmation: false, message: '変更する内容がありません', before };
+    }
+
+    const confirmationId = requestConfirmation('update-receipt', { id: before.id, after }, before);
+    console.log('[DEBUG] Receipt Update Tool - Requested confirmation:', context.receiptId);
+
+    return {
+      success: true,
+      requiresConfirmation: true,
+      message: '変更内容を確認カードに表示しました。ユーザーがカードの「実行」を押すと変更されます',
+      confirmationId,
+      preview,
+      before,
+      after,
+    };
+  },
+});
+
+// 確認カードに表示する変更点（変更が無ければ空配列）
+const describeChanges = (before: ReceiptWithItems, after: ReceiptWithItems): string[] => {
+  const labels = {
+    date: '購入日時',
+    storeName: '店舗名',
+    category: 'カテゴリー',
+    paymentMethod: '支払い方法',
+    subtotal: '小計',
+    tax: '消費税',
+    total: '合計金額',
+  } as const;
+  const itemLabels = { name: '商品名', category: 'カテゴリー', quantity: '数量', price: '単価', total: '小計' } as const;
+
+  const lines = (Object.keys(labels) as Array<keyof typeof labels>)
+    .filter((field) => before[field] !== after[field])
+    .map((field) => `${labels[field]}: ${before[field]} → ${after[field]}`);
+
+  after.items.forEach((item, i) => {
+    const original = before.items[i];
+    for (const field of Object.keys(itemLabels) as Array<keyof typeof itemLabels>) {
+      if (original[field] !== item[field]) {
+        lines.push(`${item.lineNo}行目「${original.name}」の${itemLabels[field]}: ${original[field]} → ${item[field]}`);
+      }
+    }
+  });
+
+  return lines.length > 0 ? [`${before.date.slice(0, 10)} ${before.storeName}のレシート`, ...lines] : [];
+};
+
+const applyChanges = (
+  before: ReceiptWithItems,
+  receiptChanges: ReceiptChanges,
+  itemChanges: ItemChanges[]
+): ReceiptWithItems => {
+  const items = before.items.map((item) => {
+    const changes = itemChanges.find((change) => change.lineNo === item.lineNo);
+    const next = {
+      ...item,
+      // レシートのカテゴリーを変えたら、個別に指定した明細以外も合わせる
+      category: receiptChanges.category ?? item.category,
+    };
+    if (!changes) {
+      return next;
+    }
+
+    const updated = { ...next, ...definedFields(changes) };
+    if (changes.total === undefined && (changes.quantity !== undefined || changes.price !== undefined)) {
+      updated.total = updated.quantity * updated.price;
+    }
+    return updated;
+  });
+
+  // 明細の金額が変わったら、指定が無い限り小計・合計金額も同じだけずらす
+  const difference =
+    items.reduce((sum, item) => sum + item.total, 0) - before.items.reduce((sum, item) => sum + item.total, 0);
+
+  return {
+    ...before,
+    ...definedFields(receiptChanges),
+    subtotal: receiptChanges.subtotal ?? before.subtotal + difference,
+    total: receiptChanges.total ?? before.total + difference,
+    items,
+  };
+};
+
+// undefined の項目を取り除く（スプレッドで既存の値を消さないため）
+const definedFields = <T extends object>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
@@ -0,0 +1,97 @@
+// レシートの読み取り結果の整合性チェック
+// クライアント（レシート確認カード）からも使うため、Node.js専用のモジュールに依存しないこと
+
+export interface ReceiptForValidation {
+  storeName: string;
+  date: string;
+  items: Array<{
+    name: string;
+    quantity: number;
+    price: number;
+    total: number;
+  }>;
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+// 読み取れなかった項目名 → 表示名
+const FIELD_LABELS: Record<string, string> = {
+  storeName: '店舗名',
+  date: '購入日時',
+  items: '商品',
+  subtotal: '小計',
+  tax: '消費税',
+  total: '合計金額',
+};
+
+// 端数処理による1円の誤差は許容する
+const TOLERANCE = 1;
+
+// この日数より古いレシートは日付の読み違いを疑う
+const MAX_RECEIPT_AGE_DAYS = 365;
+
+const yen = (value: number) => `${value.toLocaleString('ja-JP')}円`;
+
+const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE;
+
+// 整合性の問題点を日本語のメッセージで返す（問題が無ければ空配列）
+export const validateReceipt = (
+  receipt: ReceiptForValidation,
+  options: { missingFields?: string[]; now?: Date } = {}
+): string[] => {
+  const issues: string[] = [];
+
+  for (const field of options.missingFields || []) {
+    issues.push(`${FIELD_LABELS[field] || field}が読み取れませんでした`);
+  }
+
+  if (receipt.items.length === 0 && !options.missingFields?.includes('items')) {
+    issues.push('商品が1件もありません');
+  }
+
+  for (const item of receipt.items) {
+    if (differs(item.quantity * item.price, item.total)) {
+      issues.push(
+        `「${item.name}」の金額が一致しません: ${item.quantity} × ${yen(item.price)} = ${yen(item.quantity * item.price)} ですが、小計は${yen(item.total)}です`
+      );
+    }
+  }
+
+  const itemsTotal = receipt.items.reduce((sum, item) => sum + item.total, 0);
+  if (receipt.items.length > 0 && differs(itemsTotal, receipt.subtotal)) {
+    issues.push(`商品の小計の合計（${yen(itemsTotal)}）がレシートの小計（${yen(receipt.subtotal)}）と一致しません`);
+  }
+
+  // 内税のレシートは小計と合計が同じになるため、その場合も整合しているとみなす
+  if (differs(receipt.subtotal + receipt.tax, receipt.total) && differs(receipt.subtotal, receipt.total)) {
+    issues.push(
+      `小計（${yen(receipt.subtotal)}）と消費税（${yen(receipt.tax)}）の合計が、合計金額（${yen(receipt.total)}）と一致しません`
+    );
+  }
+
+  const dateIssue = validateDate(receipt.date, options.now || new Date());
+  if (dateIssue && !options.missingFields?.includes('date')) {
+    issues.push(dateIssue);
+  }
+
+  return issues;
+};
+
+const validateDate = (date: string, now: Date): string | undefined => {
+  const purchasedAt = new Date(date);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(date) || Number.isNaN(purchasedAt.getTime())) {
+    return `購入日時「${date}」を日付として解釈できません`;
+  }
+
+  // タイムゾーンの違いを考慮して1日の余裕を持たせる
+  const dayMs = 24 * 60 * 60 * 1000;
+  if (purchasedAt.getTime() > now.getTime() + dayMs) {
+    return `購入日時（${date.slice(0, 10)}）が未来の日付になっています`;
+  }
+  if (purchasedAt.getTime() < now.getTime() - MAX_RECEIPT_AGE_DAYS * dayMs) {
+    return `購入日時（${date.slice(0, 10)}）が${MAX_RECEIPT_AGE_DAYS}日以上前です。年の読み違いがないか確認してください`;
+  }
+
+  return undefined;
+};
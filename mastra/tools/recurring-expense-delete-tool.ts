@@ -0,0 +1,44 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, recurringExpenseRecordSchema } from '../ledger';
+import { confirmationOutputSchema, requestConfirmation } from './mutation-confirmation';
+
+export const recurringExpenseDeleteTool = createTool({
+  id: 'recurring-expense-delete',
+  description:
+    '定期支出の登録を削除する（記録済みの支出は残る）。削除する定期支出の内容を返し、ユーザーがチャットの確認カードで実行したときにだけ削除される',
+  inputSchema: z.object({
+    id: z.string().describe('削除する定期支出のID'),
+  }),
+  outputSchema: confirmationOutputSchema.extend({
+    success: z.boolean().describe('削除の確認を用意できたかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    expense: recurringExpenseRecordSchema.optional().describe('削除する定期支出'),
+  }),
+  execute: async ({ context }) => {
+    const store = await getLedgerStore();
+    const expense = (await store.listRecurringExpenses()).find((other) => other.id === context.id);
+    if (!expense) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `定期支出ID「${context.id}」の定期支出が見つかりません`,
+      };
+    }
+
+    const confirmationId = requestConfirmation('delete-recurring', { id: expense.id }, expense);
+    console.log('[DEBUG] Recurring Expense Delete Tool - Requested confirmation:', context.id);
+
+    return {
+      success: true,
+      requiresConfirmation: true,
+      message: '削除する定期支出を確認カードに表示しました。ユーザーがカードの「実行」を押すと削除されます',
+      confirmationId,
+      preview: [
+        `定期支出「${expense.name}」（${expense.amount}円、${expense.startDate}から）の登録を削除します`,
+        '記録済みの支出は残ります',
+      ],
+      expense,
+    };
+  },
+});
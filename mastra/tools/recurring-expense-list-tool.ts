@@ -0,0 +1,34 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, localToday, nextDueDate, recurringExpenseRecordSchema } from '../ledger';
+
+export const recurringExpenseListTool = createTool({
+  id: 'recurring-expense-list',
+  description: '登録済みの定期支出（家賃・サブスクリプションなど）を次の支払日とともに一覧する',
+  inputSchema: z.object({
+    includeEnded: z.boolean().optional().describe('終了した定期支出も含める'),
+  }),
+  outputSchema: z.object({
+    expenses: z
+      .array(
+        recurringExpenseRecordSchema.extend({
+          nextDueDate: z.string().optional().describe('次の支払日（終了している場合は省略）'),
+        })
+      )
+      .describe('定期支出'),
+    monthlyTotal: z.number().describe('継続中の定期支出の1か月あたりの金額の合計（毎週は52/12回、毎年は1/12回として換算）'),
+  }),
+  execute: async ({ context }) => {
+    const today = localToday();
+    const expenses = (await (await getLedgerStore()).listRecurringExpenses())
+      .map((expense) => ({ ...expense, nextDueDate: nextDueDate(expense, today) }))
+      .filter((expense) => context.includeEnded || expense.nextDueDate);
+
+    const perMonth = { weekly: 52 / 12, monthly: 1, yearly: 1 / 12 };
+    const monthlyTotal = expenses
+      .filter((expense) => expense.nextDueDate)
+      .reduce((sum, expense) => sum + expense.amount * perMonth[expense.frequency], 0);
+
+    return { expenses, monthlyTotal: Math.round(monthlyTotal) };
+  },
+});
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import {
+  dueDates,
+  getLedgerStore,
+  localToday,
+  nextDueDate,
+  recordDueRecurringExpenses,
+  recurringChargeSchema,
+  recurringExpenseRecordSchema,
+  recurringFrequencySchema,
+} from '../ledger';
+import { loadCategoryConfig } from './category-rules';
+import { confirmationOutputSchema, requestConfirmation } from './mutation-confirmation';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const recurringExpenseSetTool = createTool({
+  id: 'recurring-expense-set',
+  description:
+    '家賃・光熱費・携帯料金・サブスクリプションなどの定期支出を登録・変更する。支払日を迎えた分は自動で家計簿に記録される。開始日が過去で過ぎた支払日の分を記録することになる場合は、記録する回数を返し、ユーザーがチャットの確認カードで実行したときにだけ登録・記録される',
+  inputSchema: z.object({
+    id: z.string().optional().describe('変更する定期支出のID（新しく登録する場合は省略）'),
+    name: z.string().describe('名前（家賃、電気代、動画配信サービスなど）'),
+    amount: z.number().describe('1回あたりの金額（円）'),
+    category: z.string().describe('カテゴリー（カテゴリー一覧にあるもの）'),
+    frequency: recurringFrequencySchema,
+    startDate: z.string().describe('初回の支払日（YYYY-MM-DD形式）。毎月・毎年・毎週の支払日はこの日付から決まる'),
+    endDate: z.string().optional().describe('最後の支払日（YYYY-MM-DD形式、無期限なら省略）'),
+    paymentMethod: z.string().optional().describe('支払い方法（省略時は「不明」）'),
+  }),
+  outputSchema: confirmationOutputSchema.extend({
+    success: z.boolean().describe('登録・変更できたかどうか（確認が必要な場合は確認を用意できたかどうか）'),
+    message: z.string().describe('処理結果のメッセージ'),
+    expense: recurringExpenseRecordSchema.optional().describe('登録した定期支出'),
+    nextDueDate: z.string().optional().describe('次の支払日'),
+    recorded: z.array(recurringChargeSchema).optional().describe('支払日を過ぎていたため記録した支出'),
+    pendingDates: z.array(z.string()).optional().describe('確認カードで実行すると記録される支払日'),
+  }),
+  execute: async ({ context }) => {
+    const { categories } = loadCategoryConfig();
+    if (!categories.includes(context.category)) {
+      return {
+        success: false,
+        requiresConfirmation: false,
+        message: `カテゴリー「${context.category}」はありません。次のいずれかを指定してください: ${categories.join('、')}`,
+      };
+    }
+    if (!(context.amount > 0)) {
+      return { success: false, requiresConfirmation: false, message: '金額には0より大きい金額を指定してください' };
+    }
+    if (![context.startDate, context.endDate].every((date) => date === undefined || DATE_PATTERN.test(date))) {
+      return { success: false, requiresConfirmation: false, message: '開始日・終了日は YYYY-MM-DD 形式で指定してください' };
+    }
+    if (context.endDate && context.endDate < context.startDate) {
+      return { success: false, requiresConfirmation: false, message: '終了日には開始日以降の日付を指定してください' };
+    }
+
+    const store = await getLedgerStore();
+    const existing = context.id
+      ? (await store.listRecurringExpenses()).find((expense) => expense.id === context.id)
+      : undefined;
+    if (context.id && !existing) {
+      return { success: false, requiresConfirmation: false, message: `定期支出ID「${context.id}」の定期支出が見つかりません` };
+    }
+
+    // 変更前に記録した分はそのまま残し、以降の支払日から新しい内容で記録する
+    const expense = {
+      id: existing?.id || `recurring-${crypto.randomBytes(3).toString('hex')}`,
+      name: context.name,
+      amount: context.amount,
+      category: context.category,
+      paymentMethod: context.paymentMethod || existing?.paymentMethod || '不明',
+      frequency: context.frequency,
+      startDate: context.startDate,
+      endDate: context.endDate || '',
+      lastRecordedDate: existing?.lastRecordedDate || '',
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    };
+    const today = localToday();
+
+    // 過ぎた支払日の分まで記録することになる場合は、何回分を記録するかを確認カードで確認してから登録する
+    const dates = dueDates(expense, expense.startDate, today).filter((date) => date > expense.lastRecordedDate);
+    if (dates.some((date) => date < today)) {
+      const confirmationId = requestConfirmation('set-recurring', { id: expense.id, expense }, { expense: existing ?? null });
+      console.log('[DEBUG] Recurring Expense Set Tool - Requested confirmation:', expense.id, dates.length);
+
+      return {
+        success: true,
+        requiresConfirmation: true,
+        message: `支払日を過ぎた分を含む${dates.length}回分の記録を確認カードに表示しました。ユーザーがカードの「実行」を押すと${existing ? '変更' : '登録'}して記録されます`,
+        confirmationId,
+        preview: [
+          `定期支出「${expense.name}」（${expense.amount.toLocaleString('ja-JP')}円、${expense.startDate}から）を${existing ? '変更' : '登録'}します`,
+          `支払日を迎えている${dates.length}回分（${dates[0]}〜${dates.at(-1)}、合計${(expense.amount * dates.length).toLocaleString('ja-JP')}円）を家計簿に記録します`,
+          '過去の分を記録しない場合は取り消して、開始日を次の支払日にしてください',
+        ],
+        expense,
+        pendingDates: dates,
+      };
+    }
+
+    await store.setRecurringExpense(expense);
+    console.log('[DEBUG] Recurring Expense Set Tool - Expense:', expense.id, expense.name, expense.frequency);
+
+    const recorded = await recordDueRecurringExpenses(store, today);
+    const next = nextDueDate(expense, today);
+
+    return {
+      success: true,
+      requiresConfirmation: false,
+      message: [
+        `定期支出「${expense.name}」（${expense.amount.toLocaleString('ja-JP')}円）を${existing ? '変更' : '登録'}しました`,
+        next ? `次の支払日は${next}です` : 'この後の支払日はありません',
+        recorded.length > 0 && `支払日を過ぎていた${recorded.length}回分を家計簿に記録しました`,
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      expense: { ...expense, lastRecordedDate: recorded.at(-1)?.date || expense.lastRecordedDate },
+      nextDueDate: next,
+      recorded,
+    };
+  },
+});
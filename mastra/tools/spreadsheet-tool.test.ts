@@ -0,0 +1,24 @@
+import '../test/temp-ledger-dir';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { formatKakeiboCsv } from './kakeibo-csv';
+import { ReceiptData, recordToSpreadsheet } from './spreadsheet-tool';
+
+const FIXTURE_PATH = path.join(process.cwd(), 'images', 'レシート.json');
+const EXPECTED_CSV_PATH = path.join(process.cwd(), 'images', 'レシート.csv');
+
+describe('recordToSpreadsheet', () => {
+  it('レシートの読み取り結果を記録し、エクスポート用CSVを期待どおりに出力する', async () => {
+    // レシートIDの乱数部分を固定する
+    vi.spyOn(crypto, 'randomBytes').mockImplementation(((size: number) => Buffer.alloc(size, 0xab)) as never);
+    const receipt: ReceiptData = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf-8'));
+
+    const result = await recordToSpreadsheet(receipt);
+
+    expect(result.success).toBe(true);
+    expect(result.recordedCount).toBe(4);
+    expect(Buffer.from(formatKakeiboCsv(result.rows), 'utf-8')).toEqual(fs.readFileSync(EXPECTED_CSV_PATH));
+  });
+});
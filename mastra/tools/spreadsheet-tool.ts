@@ -1,11 +1,19 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import fs from 'fs';
-import path from 'path';
+import { kakeiboRowSchema } from './kakeibo-csv';
+import {
+  budgetStatusSchema,
+  describeBudgetStatus,
+  getBudgetStatuses,
+  getLedgerStore,
+  recordReceipt,
+  toKakeiboRows,
+} from '../ledger';
+import { duplicateMatchSchema, findDuplicateReceipts, receiptFingerprint } from './receipt-fingerprint';
 
 export const spreadsheetTool = createTool({
   id: 'spreadsheet-record',
-  description: 'レシート情報をスプレッドシート（CSV）に記録する',
+  description: 'レシート情報を家計簿に記録する。同じレシートが記録済みの場合は記録せずに重複を報告する',
   inputSchema: z.object({
     storeName: z.string().describe('店舗名'),
     date: z.string().describe('購入日時'),
@@ -15,6 +23,7 @@ export const spreadsheetTool = createTool({
         quantity: z.number().describe('数量'),
         price: z.number().describe('単価'),
         total: z.number().describe('小計'),
+        category: z.string().optional().describe('商品のカテゴリー（省略時はレシートのカテゴリー）'),
       })
     ).describe('購入商品リスト'),
     subtotal: z.number().describe('小計'),
@@ -22,19 +31,25 @@ export const spreadsheetTool = createTool({
     total: z.number().describe('合計金額'),
     paymentMethod: z.string().optional().describe('支払い方法'),
     category: z.string().optional().describe('カテゴリー（食費、日用品など）'),
+    force: z.boolean().optional().describe('重複の疑いがあっても記録する（ユーザーが明示的に求めた場合のみtrue）'),
   }),
   outputSchema: z.object({
     success: z.boolean().describe('記録が成功したかどうか'),
     message: z.string().describe('処理結果のメッセージ'),
-    filePath: z.string().describe('記録されたファイルのパス'),
+    filePath: z.string().describe('記録先（ファイルパスやデータベースのURL）'),
     recordedCount: z.number().describe('記録された行数'),
+    receiptId: z.string().describe('記録したレシートのID（記録しなかった場合は空文字）'),
+    rows: z.array(kakeiboRowSchema).describe('記録された行'),
+    fingerprint: z.string().describe('レシートの識別ハッシュ'),
+    duplicates: z.array(duplicateMatchSchema).describe('重複の疑いがある記録済みレシート'),
+    budgets: z.array(budgetStatusSchema).describe('記録したカテゴリーの、購入月の予算の残り（予算を登録したカテゴリーのみ）'),
   }),
   execute: async ({ context }) => {
     return await recordToSpreadsheet(context);
   },
 });
 
-interface ReceiptData {
+export interface ReceiptData {
   storeName: string;
   date: string;
   items: Array<{
@@ -42,61 +57,80 @@ interface ReceiptData {
     quantity: number;
     price: number;
     total: number;
+    category?: string;
   }>;
   subtotal: number;
   tax: number;
   total: number;
   paymentMethod?: string;
   category?: string;
+  force?: boolean;
 }
 
-const recordToSpreadsheet = async (receiptData: ReceiptData) => {
-  try {
-    // データディレクトリのパス
-    const dataDir = path.join(process.cwd(), 'data');
-    const csvFilePath = path.join(dataDir, 'kakeibo.csv');
-
-    // dataディレクトリが存在しない場合は作成
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
+// レシートを家計簿に記録する（ツールとワークフローの記録ステップから呼ぶ）
+export const recordToSpreadsheet = async (receiptData: ReceiptData) => {
+  const fingerprint = receiptFingerprint(receiptData);
 
-    // CSVヘッダー
-    const csvHeader = '日付,店舗名,カテゴリー,商品名,数量,単価,小計,消費税,合計金額,支払い方法\n';
+  try {
+    const store = await getLedgerStore();
+    const duplicates = await findDuplicateReceipts(receiptData);
+    console.log('[DEBUG] Spreadsheet Tool - Fingerprint:', fingerprint, 'Duplicates:', duplicates.length);
 
-    // ファイルが存在しない場合はヘッダーを作成
-    if (!fs.existsSync(csvFilePath)) {
-      fs.writeFileSync(csvFilePath, csvHeader, 'utf-8');
+    if (duplicates.length > 0 && !receiptData.force) {
+      const [match] = duplicates;
+      return {
+        success: false,
+        message: `${match.kind === 'exact' ? '同じ' : '似た'}レシート（${match.date.slice(0, 10)} ${match.storeName} ${match.total}円）が既に記録されているため、記録しませんでした。重複ではない場合はforceを指定して記録してください`,
+        filePath: store.location,
+        recordedCount: 0,
+        receiptId: '',
+        rows: [],
+        fingerprint,
+        duplicates,
+        budgets: [],
+      };
     }
 
-    // 各商品を1行ずつ追加
-    let recordedCount = 0;
+    // レシートと明細を分けて記録する
     const category = receiptData.category || '未分類';
-    const paymentMethod = receiptData.paymentMethod || '不明';
+    const { receipt, items } = await recordReceipt(
+      store,
+      {
+        date: receiptData.date,
+        storeName: receiptData.storeName,
+        category,
+        subtotal: receiptData.subtotal,
+        tax: receiptData.tax,
+        total: receiptData.total,
+        paymentMethod: receiptData.paymentMethod || '不明',
+      },
+      receiptData.items.map((item) => ({
+        name: item.name,
+        category: item.category || category,
+        quantity: item.quantity,
+        price: item.price,
+        total: item.total,
+      }))
+    );
+    const rows = toKakeiboRows(receipt, items);
+    console.log('[DEBUG] Spreadsheet Tool - Receipt ID:', receipt.id);
 
-    for (const item of receiptData.items) {
-      const row = [
-        receiptData.date,
-        escapeCSV(receiptData.storeName),
-        escapeCSV(category),
-        escapeCSV(item.name),
-        item.quantity,
-        item.price,
-        item.total,
-        receiptData.tax,
-        receiptData.total,
-        escapeCSV(paymentMethod),
-      ].join(',') + '\n';
-
-      fs.appendFileSync(csvFilePath, row, 'utf-8');
-      recordedCount++;
-    }
+    // 記録した商品のカテゴリーについて、購入月の予算の残りを報告する
+    const budgets = await getBudgetStatuses(store, receipt.date.slice(0, 7), [
+      ...new Set(items.map((item) => item.category)),
+    ]);
+    console.log('[DEBUG] Spreadsheet Tool - Budgets:', budgets.map(describeBudgetStatus));
 
     return {
       success: true,
-      message: `${recordedCount}件の商品情報を記録しました`,
-      filePath: csvFilePath,
-      recordedCount,
+      message: [`${rows.length}件の商品情報を記録しました`, ...budgets.map(describeBudgetStatus)].join('\n'),
+      filePath: store.location,
+      recordedCount: rows.length,
+      receiptId: receipt.id,
+      rows,
+      fingerprint,
+      duplicates,
+      budgets,
     };
   } catch (error) {
     return {
@@ -104,14 +138,11 @@ const recordToSpreadsheet = async (receiptData: ReceiptData) => {
       message: `記録に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
       filePath: '',
       recordedCount: 0,
+      receiptId: '',
+      rows: [],
+      fingerprint,
+      duplicates: [],
+      budgets: [],
     };
   }
 };
-
-// CSVエスケープ処理
-const escapeCSV = (value: string): string => {
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-    return `"${value.replace(/"/g, '""')}"`;
-  }
-  return value;
-};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { statementImportTool } from './statement-import-tool';
+
+const importStatement = (filePath: string) =>
+  statementImportTool.execute!({ context: { filePath } } as Parameters<
+    NonNullable<typeof statementImportTool.execute>
+  >[0]);
+
+describe('statementImportTool', () => {
+  it.each(['../package.json', '/etc/passwd', 'statements/../../package.json', '.'])(
+    'データディレクトリの外のファイルは読まない: %s',
+    async (filePath) => {
+      const result = await importStatement(filePath);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('データディレクトリの外');
+    }
+  );
+});
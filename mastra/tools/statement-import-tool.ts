@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore } from '../ledger';
+import { importStatement, statementImportResultSchema } from '../statements';
+import { KAKEIBO_DATA_DIR } from './kakeibo-csv';
+
+const isInside = (dir: string, target: string) => {
+  const relative = path.relative(dir, target);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+// 明細CSVのパスをデータディレクトリからの相対パスとして解決する（データディレクトリの外を指すパスは undefined）
+// シンボリックリンクで外に出られないよう、ファイルがあれば実際のパスでも比べる
+const resolveStatementPath = (filePath: string): string | undefined => {
+  const resolved = path.resolve(KAKEIBO_DATA_DIR, filePath);
+  if (!isInside(KAKEIBO_DATA_DIR, resolved)) {
+    return undefined;
+  }
+  if (fs.existsSync(resolved) && !isInside(fs.realpathSync(KAKEIBO_DATA_DIR), fs.realpathSync(resolved))) {
+    return undefined;
+  }
+  return resolved;
+};
+
+export const statementImportTool = createTool({
+  id: 'statement-import',
+  description:
+    '銀行・クレジットカードの明細CSVを家計簿に取り込む。金額と日付が一致する記録済みのレシートは、新しく記録せずに照合する',
+  inputSchema: z.object({
+    filePath: z.string().describe('明細CSVのパス（データディレクトリ data/ からの相対パス。例: jcb.csv）'),
+    profile: z
+      .string()
+      .optional()
+      .describe('明細の形式のID（rakuten-card、jcb-card、smbc-card、bank、genericなど。省略時は見出し行や明細の行の形から判定する）'),
+  }),
+  outputSchema: statementImportResultSchema
+    .omit({ message: true })
+    .partial()
+    .extend({
+      success: z.boolean().describe('取り込めたかどうか'),
+      message: z.string().describe('処理結果のメッセージ'),
+    }),
+  execute: async ({ context }) => {
+    const filePath = resolveStatementPath(context.filePath);
+    if (!filePath) {
+      return { success: false, message: `データディレクトリの外にあるファイルは取り込めません: ${context.filePath}` };
+    }
+    if (!fs.existsSync(filePath)) {
+      return { success: false, message: `ファイルが見つかりません: ${context.filePath}` };
+    }
+
+    try {
+      const result = await importStatement(await getLedgerStore(), fs.readFileSync(filePath), {
+        profileId: context.profile,
+      });
+      return { success: true, ...result };
+    } catch (error) {
+      return {
+        success: false,
+        message: `明細の取り込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
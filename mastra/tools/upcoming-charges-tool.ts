@@ -0,0 +1,27 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLedgerStore, getMonthlyCharges, recurringChargeSchema, localMonth } from '../ledger';
+
+export const upcomingChargesTool = createTool({
+  id: 'upcoming-charges',
+  description: '指定した月の定期支出の支払い予定と、記録済みかどうかを返す',
+  inputSchema: z.object({
+    month: z.string().optional().describe('対象月（YYYY-MM形式、省略時は今月）'),
+  }),
+  outputSchema: z.object({
+    month: z.string().describe('対象月（YYYY-MM形式）'),
+    charges: z.array(recurringChargeSchema).describe('支払い予定（支払日の順）'),
+    upcomingTotal: z.number().describe('まだ記録されていない支払いの合計'),
+    recordedTotal: z.number().describe('記録済みの支払いの合計'),
+  }),
+  execute: async ({ context }) => {
+    const month = context.month || localMonth();
+    const charges = await getMonthlyCharges(await getLedgerStore(), month);
+    console.log('[DEBUG] Upcoming Charges Tool - Month:', month, 'Charges:', charges.length);
+
+    const sum = (recorded: boolean) =>
+      charges.filter((charge) => charge.recorded === recorded).reduce((total, charge) => total + charge.amount, 0);
+
+    return { month, charges, upcomingTotal: sum(false), recordedTotal: sum(true) };
+  },
+});
@@ -0,0 +1,56 @@
+import '../test/temp-ledger-dir';
+import { describe, expect, it, vi } from 'vitest';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { localToday } from '../ledger/dates';
+import { OcrRequest } from '../ocr';
+import { kakeiboWorkflow } from './kakeibo-workflow';
+
+// 画像ごとに違う内容を返し、1枚目の読み取りを遅らせて2つの実行を重ねるOCR
+const RECEIPTS: Record<string, { storeName: string; total: number; delayMs: number }> = {
+  'data:image/jpeg;base64,QQ==': { storeName: 'SHOP A', total: 100, delayMs: 50 },
+  'data:image/jpeg;base64,Qg==': { storeName: 'SHOP B', total: 200, delayMs: 0 },
+};
+
+// 読み取りが終わった順の店舗名
+const recognized = vi.hoisted((): string[] => []);
+
+vi.mock('../ocr', () => ({
+  getOcrProvider: () => ({
+    kind: 'fixture',
+    name: 'test',
+    recognize: async ({ imageUrl }: OcrRequest) => {
+      const receipt = RECEIPTS[imageUrl];
+      await new Promise((resolve) => setTimeout(resolve, receipt.delayMs));
+      recognized.push(receipt.storeName);
+      return {
+        storeName: receipt.storeName,
+        date: `${localToday()}T12:00:00`,
+        items: [{ name: receipt.storeName, quantity: 1, price: receipt.total, total: receipt.total }],
+        subtotal: receipt.total,
+        tax: 0,
+        total: receipt.total,
+      };
+    },
+  }),
+}));
+
+describe('kakeiboWorkflow', () => {
+  it('チャットの添付ファイルと同じく同時に実行しても、それぞれの画像の読み取り結果で確認待ちになる', async () => {
+    const results = await mapWithConcurrency(Object.keys(RECEIPTS), 2, async (imageUrl) => {
+      const run = await kakeiboWorkflow.createRunAsync();
+      return run.start({ inputData: { imageUrl } });
+    });
+
+    // 2枚目の読み取りが1枚目より先に終わっている（2つの実行が重なっている）
+    expect(recognized).toEqual(['SHOP B', 'SHOP A']);
+    expect(results.map((result) => result.status)).toEqual(['suspended', 'suspended']);
+    const receipts = results.map((result) => {
+      const review = result.steps['review-receipt'];
+      return review?.status === 'suspended' ? review.suspendPayload.receipt : undefined;
+    });
+    expect(receipts.map((receipt) => [receipt?.storeName, receipt?.total])).toEqual([
+      ['SHOP A', 100],
+      ['SHOP B', 200],
+    ]);
+  });
+});
@@ -1,9 +1,16 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
-import { setImageUrlForRun } from '../tools/receipt-ocr-tool';
+import { analyzeReceipt } from '../tools/receipt-ocr-tool';
+import { validateReceipt } from '../tools/receipt-validation';
+import { duplicateMatchSchema, findDuplicateReceipts } from '../tools/receipt-fingerprint';
+import { kakeiboRowSchema } from '../tools/kakeibo-csv';
+import { recordToSpreadsheet } from '../tools/spreadsheet-tool';
+import { budgetStatusSchema } from '../ledger';
+import { isModelConfigured } from '../models';
+import { FALLBACK_CATEGORY, findCategoryByRules, learnItemCategories, loadCategoryConfig } from '../tools/category-rules';
 
 // レシート情報のスキーマ
-const receiptSchema = z.object({
+export const receiptSchema = z.object({
   storeName: z.string().describe('店舗名'),
   date: z.string().describe('購入日時'),
   items: z.array(
@@ -12,6 +19,7 @@ const receiptSchema = z.object({
       quantity: z.number().describe('数量'),
       price: z.number().describe('単価'),
       total: z.number().describe('小計'),
+      category: z.string().optional().describe('商品のカテゴリー'),
     })
   ).describe('購入商品リスト'),
   subtotal: z.number().describe('小計'),
@@ -21,16 +29,34 @@ const receiptSchema = z.object({
   category: z.string().optional().describe('カテゴリー'),
 });
 
-// ステップ1: レシートOCRエージェントを実行
-const runReceiptOcrAgent = createStep({
-  id: 'run-receipt-ocr-agent',
-  description: 'レシートOCRエージェントを実行してレシート画像から情報を抽出します',
-  inputSchema: z.object({
-    imageUrl: z.string().describe('レシート画像のURL'),
-    category: z.string().optional().describe('支出カテゴリー（食費、日用品など）'),
-  }),
-  outputSchema: receiptSchema,
-  execute: async ({ mastra, inputData, runId }) => {
+// ワークフローの入力
+const workflowInputSchema = z.object({
+  imageUrl: z.string().describe('レシート画像またはPDFのURL'),
+  category: z.string().optional().describe('支出カテゴリー（指定すると全商品に適用、省略時は自動分類）'),
+});
+
+// OCR直後のレシート情報（読み取れなかった項目つき）
+const ocrReceiptSchema = receiptSchema.extend({
+  missingFields: z.array(z.string()).describe('読み取れずに既定値で補った項目'),
+});
+
+// 整合性チェック済みのレシート情報
+const validatedReceiptSchema = receiptSchema.extend({
+  issues: z.array(z.string()).describe('整合性チェックで見つかった問題点'),
+});
+
+// ユーザーが確認済みのレシート情報
+const reviewedReceiptSchema = receiptSchema.extend({
+  force: z.boolean().describe('重複の疑いがあっても記録する'),
+});
+
+// ステップ1: レシート画像を読み取る（OCRはエージェントを介さずに直接呼ぶので、fixture のOCRならモデルは要らない）
+const runReceiptOcr = createStep({
+  id: 'run-receipt-ocr',
+  description: 'レシート画像から情報を抽出します',
+  inputSchema: workflowInputSchema,
+  outputSchema: ocrReceiptSchema,
+  execute: async ({ inputData, runId }) => {
     if (!inputData) {
       throw new Error('入力データが見つかりません');
     }
@@ -39,139 +65,278 @@ const runReceiptOcrAgent = createStep({
       ? (inputData.imageUrl.startsWith('data:') ? `data URL (${inputData.imageUrl.length} chars)` : inputData.imageUrl)
       : 'null';
 
-    console.log('[DEBUG] Step 1 - Receipt OCR Agent');
+    console.log('[DEBUG] Step 1 - Receipt OCR');
     console.log('[DEBUG] Input imageUrl:', imageUrlPreview);
     console.log('[DEBUG] Input category:', inputData.category);
     console.log('[DEBUG] RunID:', runId);
 
-    // 画像URLをグローバルストレージに保存
-    if (runId) {
-      setImageUrlForRun(runId, inputData.imageUrl);
+    const ocrResult = await analyzeReceipt(inputData.imageUrl);
+    console.log('[DEBUG] OCR Result - Store:', ocrResult.storeName);
+    console.log('[DEBUG] OCR Result - Items count:', ocrResult.items.length);
+    console.log('[DEBUG] OCR Result - Total:', ocrResult.total);
+
+    return { ...ocrResult, category: inputData.category };
+  },
+});
+
+// ステップ2: 金額・日付の整合性をチェックし、矛盾があれば一度だけ読み直す
+const validateOcrResult = createStep({
+  id: 'validate-receipt',
+  description: '明細・小計・消費税・合計の計算と日付の妥当性をチェックし、矛盾があればOCRをやり直します',
+  inputSchema: ocrReceiptSchema,
+  outputSchema: validatedReceiptSchema,
+  execute: async ({ inputData, getInitData }) => {
+    if (!inputData) {
+      throw new Error('レシートデータが見つかりません');
+    }
+
+    const { missingFields, ...receipt } = inputData;
+    const issues = validateReceipt(receipt, { missingFields });
+
+    console.log('[DEBUG] Step 2 - Validate Receipt');
+    console.log('[DEBUG] Validation issues:', issues);
+
+    if (issues.length === 0) {
+      return { ...receipt, issues };
     }
 
-    const agent = mastra.getAgent('receiptOcrAgent');
-    
-    // エージェント実行時にrunIdを渡す
-    const result = await agent.generate(
-      '[システム: ユーザーがレシート画像をアップロードしました。receipt-ocrツールを使用してください]',
-      {
-        runId: runId,
+    const { imageUrl } = getInitData() as z.infer<typeof workflowInputSchema>;
+
+    try {
+      const retried = await analyzeReceipt(imageUrl, issues);
+      const { missingFields: retriedMissingFields, ...retriedReceipt } = retried;
+      const retriedIssues = validateReceipt(retriedReceipt, { missingFields: retriedMissingFields });
+
+      console.log('[DEBUG] Validation issues after retry:', retriedIssues);
+
+      // 読み直した結果の方が矛盾が少なければ採用する
+      if (retriedIssues.length < issues.length) {
+        return { ...retriedReceipt, category: receipt.category, issues: retriedIssues };
       }
-    );
+    } catch (error) {
+      console.log('[DEBUG] OCR retry failed:', error instanceof Error ? error.message : error);
+    }
+
+    return { ...receipt, issues };
+  },
+});
+
+// ステップ3: 読み取り結果をユーザーに確認・修正してもらう
+const reviewReceipt = createStep({
+  id: 'review-receipt',
+  description: 'OCR結果をユーザーに確認してもらい、修正内容を反映します',
+  inputSchema: validatedReceiptSchema,
+  outputSchema: reviewedReceiptSchema,
+  suspendSchema: z.object({
+    receipt: receiptSchema.describe('確認待ちのレシート情報'),
+    issues: z.array(z.string()).describe('整合性チェックで見つかった問題点'),
+    duplicates: z.array(duplicateMatchSchema).describe('重複の疑いがある記録済みレシート'),
+  }),
+  resumeSchema: z.object({
+    action: z.enum(['confirm', 'cancel']).describe('confirm: 記録する, cancel: 破棄する'),
+    receipt: receiptSchema.optional().describe('ユーザーが修正したレシート情報'),
+    force: z.boolean().optional().describe('重複の疑いがあっても記録する'),
+    acceptIssues: z.boolean().optional().describe('整合性の問題点を確認したうえで記録する'),
+  }),
+  execute: async ({ inputData, resumeData, suspend, bail }) => {
+    if (!inputData) {
+      throw new Error('レシートデータが見つかりません');
+    }
 
-    console.log('[DEBUG] Agent text:', result.text);
+    const { issues, ...receipt } = inputData;
 
-    // ツール実行結果から情報を抽出
-    const toolResults = result.toolResults || [];
-    console.log('[DEBUG] Tool results count:', toolResults.length);
-    
-    if (toolResults.length === 0) {
-      throw new Error('レシートOCRツールが実行されませんでした');
+    if (!resumeData) {
+      console.log('[DEBUG] Step 3 - Review Receipt: suspending for user review');
+      return await suspend({ receipt, issues, duplicates: await findDuplicateReceipts(receipt) });
     }
 
-    const ocrResult = toolResults[0].payload.result as Record<string, unknown>;
-    console.log('[DEBUG] OCR Result - Store:', ocrResult.storeName);
-    console.log('[DEBUG] OCR Result - Items count:', (ocrResult.items as Array<unknown>)?.length || 0);
-    console.log('[DEBUG] OCR Result - Total:', ocrResult.total);
+    console.log('[DEBUG] Step 3 - Review Receipt: resumed with action', resumeData.action);
+
+    if (resumeData.action === 'cancel') {
+      return bail({
+        success: false,
+        message: 'レシートの記録を取り消しました',
+        filePath: '',
+        recordedCount: 0,
+        rows: [],
+        budgets: [],
+      });
+    }
+
+    // 確認カードでの修正内容はクライアントのチェックに頼らず、ここでもチェックする
+    // 問題点があり、ユーザーが問題点を承知していなければ、修正後の内容でもう一度確認してもらう
+    const reviewed = resumeData.receipt || receipt;
+    const reviewedIssues = validateReceipt(reviewed);
+    if (reviewedIssues.length > 0 && !resumeData.acceptIssues) {
+      console.log('[DEBUG] Step 3 - Review Receipt: issues remain, suspending again', reviewedIssues);
+      return await suspend({
+        receipt: reviewed,
+        issues: reviewedIssues,
+        duplicates: await findDuplicateReceipts(reviewed),
+      });
+    }
 
     return {
-      storeName: (ocrResult.storeName as string) || '不明',
-      date: (ocrResult.date as string) || new Date().toISOString(),
-      items: (ocrResult.items as Array<{
-        name: string;
-        quantity: number;
-        price: number;
-        total: number;
-      }>) || [],
-      subtotal: (ocrResult.subtotal as number) || 0,
-      tax: (ocrResult.tax as number) || 0,
-      total: (ocrResult.total as number) || 0,
-      paymentMethod: ocrResult.paymentMethod as string | undefined,
-      category: inputData.category,
+      ...reviewed,
+      // ワークフロー開始時に指定されたカテゴリーは引き継ぐ
+      category: receipt.category,
+      force: resumeData.force ?? false,
     };
   },
 });
 
-// ステップ2: CSV記入エージェントを実行
-const runCsvWriterAgent = createStep({
-  id: 'run-csv-writer-agent',
-  description: 'CSV記入エージェントを実行してレシート情報を記録します',
-  inputSchema: receiptSchema,
-  outputSchema: z.object({
-    success: z.boolean().describe('記録が成功したかどうか'),
-    message: z.string().describe('処理結果のメッセージ'),
-    filePath: z.string().describe('記録されたファイルのパス'),
-    recordedCount: z.number().describe('記録された行数'),
-  }),
+// ステップ4: 商品ごとにカテゴリーを割り当て
+const categorizeReceipt = createStep({
+  id: 'categorize-receipt',
+  description: 'ルールと分類エージェントでレシートの各商品にカテゴリーを割り当てます',
+  inputSchema: reviewedReceiptSchema,
+  outputSchema: reviewedReceiptSchema,
   execute: async ({ mastra, inputData }) => {
     if (!inputData) {
       throw new Error('レシートデータが見つかりません');
     }
 
-    console.log('[DEBUG] Step 2 - CSV Writer Agent');
-    console.log('[DEBUG] Input - Store:', inputData.storeName);
-    console.log('[DEBUG] Input - Items count:', inputData.items.length);
-    console.log('[DEBUG] Input - Total:', inputData.total);
+    console.log('[DEBUG] Step 4 - Categorize Receipt');
 
-    const agent = mastra.getAgent('csvWriterAgent');
+    const { categories, rules } = loadCategoryConfig();
 
-    const message = `以下のレシート情報をCSVに記録してください:
-店舗名: ${inputData.storeName}
-日付: ${inputData.date}
-カテゴリー: ${inputData.category || '未分類'}
-商品数: ${inputData.items.length}件
-合計金額: ${inputData.total}円
-支払い方法: ${inputData.paymentMethod || '不明'}
+    // ユーザーがカテゴリーを指定した場合は全商品に適用
+    const userCategory = inputData.category && categories.includes(inputData.category)
+      ? inputData.category
+      : undefined;
+
+    const itemCategories = inputData.items.map((item) =>
+      userCategory || findCategoryByRules(rules, inputData.storeName, item.name)
+    );
+
+    const unmatchedIndexes = itemCategories
+      .map((category, i) => (category ? -1 : i))
+      .filter((i) => i >= 0);
+
+    console.log('[DEBUG] Items matched by rules:', inputData.items.length - unmatchedIndexes.length);
+    console.log('[DEBUG] Items to categorize by agent:', unmatchedIndexes.length);
+
+    // 分類に使うモデルが無ければ、ルールで分類できなかった商品は「その他」にする
+    if (unmatchedIndexes.length > 0 && !isModelConfigured('tools')) {
+      console.log('[DEBUG] No model configured for categorization, using fallback category');
+    } else if (unmatchedIndexes.length > 0) {
+      const agent = mastra.getAgent('expenseCategorizerAgent');
+
+      const message = `店舗名: ${inputData.storeName}
+
+カテゴリー一覧: ${categories.join('、')}
 
 商品リスト:
-${inputData.items.map((item, i) => `${i + 1}. ${item.name} - ${item.quantity}個 × ${item.price}円 = ${item.total}円`).join('\n')}
+${unmatchedIndexes.map((i) => `${i}. ${inputData.items[i].name}`).join('\n')}`;
+
+      const result = await agent.generate(message, {
+        structuredOutput: {
+          schema: z.object({
+            items: z.array(
+              z.object({
+                index: z.number().describe('商品の番号'),
+                category: z.string().describe('カテゴリー'),
+              })
+            ),
+          }),
+        },
+      });
+
+      const learned: Array<{ itemName: string; category: string }> = [];
+      for (const { index, category } of result.object?.items || []) {
+        if (!unmatchedIndexes.includes(index) || itemCategories[index]) {
+          continue;
+        }
+        const validCategory = categories.includes(category) ? category : FALLBACK_CATEGORY;
+        itemCategories[index] = validCategory;
+        if (validCategory !== FALLBACK_CATEGORY) {
+          learned.push({ itemName: inputData.items[index].name, category: validCategory });
+        }
+      }
 
-消費税: ${inputData.tax}円
-小計: ${inputData.subtotal}円`;
+      // 次回以降はルールで分類できるように学習結果を保存
+      console.log('[DEBUG] Learned item rules:', learnItemCategories(learned));
+    }
+
+    const items = inputData.items.map((item, i) => ({
+      ...item,
+      category: itemCategories[i] || FALLBACK_CATEGORY,
+    }));
 
-    console.log('[DEBUG] Message length:', message.length);
+    // レシート全体のカテゴリーは金額が最も大きいカテゴリー
+    const amountByCategory = new Map<string, number>();
+    for (const item of items) {
+      amountByCategory.set(item.category, (amountByCategory.get(item.category) || 0) + item.total);
+    }
+    const receiptCategory = [...amountByCategory.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
 
-    const result = await agent.generate(message);
+    console.log('[DEBUG] Item categories:', items.map((item) => item.category).join(', '));
 
-    console.log('[DEBUG] Agent text:', result.text);
+    return {
+      ...inputData,
+      items,
+      category: receiptCategory || FALLBACK_CATEGORY,
+    };
+  },
+});
 
-    const toolResults = result.toolResults || [];
-    console.log('[DEBUG] Tool results count:', toolResults.length);
-    
-    if (toolResults.length === 0) {
-      throw new Error('CSVツールが実行されませんでした');
+// ステップ5: 確認・分類済みのレシートをそのまま家計簿に記録
+const recordReceiptStep = createStep({
+  id: 'record-receipt',
+  description: '確認・分類済みのレシート情報を家計簿に記録します',
+  inputSchema: reviewedReceiptSchema,
+  outputSchema: z.object({
+    success: z.boolean().describe('記録が成功したかどうか'),
+    message: z.string().describe('処理結果のメッセージ'),
+    filePath: z.string().describe('記録されたファイルのパス'),
+    recordedCount: z.number().describe('記録された行数'),
+    rows: z.array(kakeiboRowSchema).describe('記録された行'),
+    budgets: z.array(budgetStatusSchema).describe('記録したカテゴリーの予算の残り'),
+  }),
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('レシートデータが見つかりません');
     }
 
-    const csvResult = toolResults[0].payload.result as Record<string, unknown>;
-    console.log('[DEBUG] CSV Result - Success:', csvResult.success);
-    console.log('[DEBUG] CSV Result - Message:', csvResult.message);
-    console.log('[DEBUG] CSV Result - RecordedCount:', csvResult.recordedCount);
+    console.log('[DEBUG] Step 5 - Record Receipt');
+    console.log('[DEBUG] Input - Store:', inputData.storeName);
+    console.log('[DEBUG] Input - Items count:', inputData.items.length);
+    console.log('[DEBUG] Input - Total:', inputData.total);
+
+    const result = await recordToSpreadsheet(inputData);
+    console.log('[DEBUG] Record Result - Success:', result.success);
+    console.log('[DEBUG] Record Result - Message:', result.message);
+    console.log('[DEBUG] Record Result - RecordedCount:', result.recordedCount);
 
     return {
-      success: (csvResult.success as boolean) || false,
-      message: (csvResult.message as string) || 'CSV記録完了',
-      filePath: (csvResult.filePath as string) || '',
-      recordedCount: (csvResult.recordedCount as number) || 0,
+      success: result.success,
+      message: result.message,
+      filePath: result.filePath,
+      recordedCount: result.recordedCount,
+      rows: result.rows,
+      budgets: result.budgets,
     };
   },
 });
 
-// ワークフロー定義: レシート認識 → スプレッドシート記録
+// ワークフロー定義: レシート認識 → 整合性チェック → ユーザー確認 → カテゴリー分類 → スプレッドシート記録
 const kakeiboWorkflow = createWorkflow({
   id: 'kakeibo-workflow',
-  inputSchema: z.object({
-    imageUrl: z.string().describe('レシート画像のURL'),
-    category: z.string().optional().describe('支出カテゴリー（食費、日用品など）'),
-  }),
+  inputSchema: workflowInputSchema,
   outputSchema: z.object({
     success: z.boolean().describe('記録が成功したかどうか'),
     message: z.string().describe('処理結果のメッセージ'),
     filePath: z.string().describe('記録されたファイルのパス'),
     recordedCount: z.number().describe('記録された行数'),
+    rows: z.array(kakeiboRowSchema).describe('記録された行'),
+    budgets: z.array(budgetStatusSchema).describe('記録したカテゴリーの予算の残り'),
   }),
 })
-  .then(runReceiptOcrAgent)
-  .then(runCsvWriterAgent);
+  .then(runReceiptOcr)
+  .then(validateOcrResult)
+  .then(reviewReceipt)
+  .then(categorizeReceipt)
+  .then(recordReceiptStep);
 
 kakeiboWorkflow.commit();
 